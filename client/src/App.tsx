@@ -10,6 +10,9 @@ import Home from "@/pages/home";
 import Database from "@/pages/database";
 import Help from "@/pages/help";
 import SyllabusView from "@/pages/syllabus-view";
+import Usage from "@/pages/usage";
+import Batches from "@/pages/batches";
+import BatchView from "@/pages/batch-view";
 
 function Router() {
   return (
@@ -18,6 +21,9 @@ function Router() {
       <Route path="/database" component={Database} />
       <Route path="/help" component={Help} />
       <Route path="/syllabus/:id" component={SyllabusView} />
+      <Route path="/usage" component={Usage} />
+      <Route path="/batches" component={Batches} />
+      <Route path="/batches/:id" component={BatchView} />
       <Route component={NotFound} />
     </Switch>
   );
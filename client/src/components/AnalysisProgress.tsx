@@ -0,0 +1,93 @@
+import { AnalysisProgressEvent } from "@shared/schema";
+import { CheckCircle, Circle, Loader2, XCircle } from "lucide-react";
+import { useAnalysisProgress } from "@/hooks/use-analysis-progress";
+
+// Display names of the steps reported by the server
+const STEP_LABELS: Record<string, string> = {
+  extraction: "Extract text",
+  segmentation: "Find sections",
+  schedule: "Read schedule",
+  assessments: "Read assessments",
+  cache: "Reuse cached analysis",
+  courseInfo: "Identify course",
+  requirements: "Check requirements",
+  learningOutcomes: "Extract learning outcomes",
+  fits: "Score requirement fits",
+  fallback: "Fall back to keyword analysis",
+  keywords: "Match keywords",
+  saving: "Save analysis",
+  retry: "Retry",
+};
+
+interface AnalysisProgressProps {
+  jobIds: number[];
+}
+
+/**
+ * Reduce a job's events to the latest state of each step, in the order the steps started
+ * @param events The job's progress events
+ * @returns The latest event of each step
+ */
+function latestSteps(events: AnalysisProgressEvent[]): AnalysisProgressEvent[] {
+  const steps = new Map<string, AnalysisProgressEvent>();
+  events
+    .filter(event => event.step !== "done")
+    .forEach(event => steps.set(event.step, event));
+  return Array.from(steps.values());
+}
+
+function StepIcon({ event }: { event: AnalysisProgressEvent }) {
+  switch (event.status) {
+    case "completed": return <CheckCircle size={16} className="text-green-600 shrink-0" />;
+    case "failed": return <XCircle size={16} className="text-amber-600 shrink-0" />;
+    case "started":
+    case "progress": return <Loader2 size={16} className="text-primary animate-spin shrink-0" />;
+    default: return <Circle size={16} className="text-neutral-300 shrink-0" />;
+  }
+}
+
+export default function AnalysisProgress({ jobIds }: AnalysisProgressProps) {
+  const progress = useAnalysisProgress(jobIds);
+
+  return (
+    <div className="space-y-4 text-left">
+      {jobIds.map(jobId => {
+        const events = progress[jobId] || [];
+        const done = events.find(event => event.step === "done");
+
+        return (
+          <div key={jobId}>
+            {jobIds.length > 1 && (
+              <div className="text-sm font-medium text-neutral-900 mb-1">
+                {events[0]?.fileName || `Job ${jobId}`}
+                {done && (
+                  <span className={`ml-2 text-xs ${done.status === "completed" ? "text-green-700" : "text-red-700"}`}>
+                    {done.message}
+                  </span>
+                )}
+              </div>
+            )}
+            {events.length === 0 ? (
+              <p className="text-sm text-neutral-500">Waiting for a free analyzer...</p>
+            ) : (
+              <ol className="space-y-1">
+                {latestSteps(events).map(event => (
+                  <li key={event.step} className="flex items-start gap-2 text-sm">
+                    <StepIcon event={event} />
+                    <div>
+                      <span className="font-medium text-neutral-800">{STEP_LABELS[event.step] || event.step}</span>
+                      {event.total !== undefined && (
+                        <span className="text-neutral-500"> ({event.current ?? 0}/{event.total})</span>
+                      )}
+                      <div className="text-xs text-neutral-500">{event.message}</div>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,20 +1,28 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { AnalysisResult, ApprovedRequirement, RejectedRequirement, RequirementFit } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { formatDate } from "@/lib/utils";
-import { getRequirementColors } from "@/lib/requirementColors";
+import { formatAnalysisMethod, formatCoverage, formatDate } from "@/lib/utils";
+import { useRequirements } from "@/hooks/use-requirements";
+import BulletinChecks from "@/components/BulletinChecks";
+import EvidenceList from "@/components/EvidenceList";
+import UnanalyzedRequirements from "@/components/UnanalyzedRequirements";
+import AnalysisProgress from "@/components/AnalysisProgress";
 
 interface AnalysisResultsProps {
   result: AnalysisResult | null;
   isAnalyzing: boolean;
+  jobIds?: number[];                           // Jobs whose progress is shown while analyzing
 }
 
-export default function AnalysisResults({ result, isAnalyzing, isMultiple = false }: AnalysisResultsProps & { isMultiple?: boolean }) {
+export default function AnalysisResults({ result, isAnalyzing, jobIds = [], isMultiple = false }: AnalysisResultsProps & { isMultiple?: boolean }) {
   const [expandedApproved, setExpandedApproved] = useState<string[]>([]);
   const [expandedRejected, setExpandedRejected] = useState<string[]>([]);
   const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const { getColors, getSLOText } = useRequirements(result?.catalogVersionId);
 
   const toggleExpanded = (requirement: string, type: 'approved' | 'rejected') => {
     if (type === 'approved') {
@@ -65,6 +73,11 @@ export default function AnalysisResults({ result, isAnalyzing, isMultiple = fals
       csvContent += `"${result.courseName}","${req.name}","Rejected","${req.missingRequirements.join('; ')}","${req.missingSLOs.join(', ')}"\n`;
     });
     
+    // Add requirements that could not be analyzed
+    (result.unanalyzedRequirements || []).forEach(req => {
+      csvContent += `"${result.courseName}","${req.name}","Not Analyzed","${req.reason.replace(/"/g, '""')}",""\n`;
+    });
+    
     // Create download link
     const encodedUri = encodeURI(csvContent);
     const link = document.createElement("a");
@@ -101,7 +114,13 @@ export default function AnalysisResults({ result, isAnalyzing, isMultiple = fals
           <div className="py-8 text-center">
             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary mb-2"></div>
             <p className="text-neutral-600">Analyzing syllabus content...</p>
-            <p className="text-sm text-neutral-500 mt-1">This may take a few moments</p>
+            {jobIds.length > 0 ? (
+              <div className="mt-4 max-w-md mx-auto">
+                <AnalysisProgress jobIds={jobIds} />
+              </div>
+            ) : (
+              <p className="text-sm text-neutral-500 mt-1">This may take a few moments</p>
+            )}
           </div>
         )}
         
@@ -134,7 +153,36 @@ export default function AnalysisResults({ result, isAnalyzing, isMultiple = fals
                   {result.analysisMethod && (
                     <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
                       <span className="material-icons text-xs mr-1">smart_toy</span>
-                      {result.analysisMethod === 'ai' ? 'AI-Powered Analysis' : 'Keyword Analysis'}
+                      {formatAnalysisMethod(result.analysisMethod)}
+                      {result.model && ` · ${result.model}`}
+                    </span>
+                  )}
+                  {result.cached && (
+                    <span 
+                      title="This syllabus was analyzed before with the same catalog, model and prompts"
+                      className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800"
+                    >
+                      <span className="material-icons text-xs mr-1">cached</span>
+                      Cached Result
+                    </span>
+                  )}
+                  {result.catalogVersionName && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-neutral-100 text-neutral-800">
+                      <span className="material-icons text-xs mr-1">menu_book</span>
+                      Catalog {result.catalogVersionName}
+                    </span>
+                  )}
+                  {result.coverage && (
+                    <span 
+                      title={`${result.coverage.analyzedChunks} of ${result.coverage.chunkCount} sections analyzed`}
+                      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                        result.coverage.analyzedCharacters < result.coverage.totalCharacters 
+                          ? 'bg-amber-100 text-amber-800' 
+                          : 'bg-neutral-100 text-neutral-800'
+                      }`}
+                    >
+                      <span className="material-icons text-xs mr-1">article</span>
+                      {formatCoverage(result.coverage)} of document analyzed
                     </span>
                   )}
                   <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-emerald-100 text-emerald-800">
@@ -145,6 +193,13 @@ export default function AnalysisResults({ result, isAnalyzing, isMultiple = fals
               </div>
             </div>
             
+            {/* Requirements the analysis failed on; the retried verdicts are shown on the saved analysis */}
+            <UnanalyzedRequirements 
+              requirements={result.unanalyzedRequirements} 
+              analysisId={result.id} 
+              onRetried={(analysis) => navigate(`/syllabus/${analysis.id}`)}
+            />
+            
             {/* Best Fit Section */}
             {result.bestFit && (
               <div className="mb-6 bg-gradient-to-r from-primary/5 to-transparent p-5 rounded-lg border border-primary/10">
@@ -158,9 +213,9 @@ export default function AnalysisResults({ result, isAnalyzing, isMultiple = fals
                     {/* Requirement name with score */}
                     <div className="flex items-center justify-between mb-2">
                       <div className="flex items-center">
-                        {/* Use the requirementColors utility to get consistent styling */}
+                        {/* Use the catalog colors to get consistent styling */}
                         {(() => {
-                          const colors = getRequirementColors(result.bestFit.name);
+                          const colors = getColors(result.bestFit.name);
                           return (
                             <span className={`inline-flex items-center px-3 py-1 rounded-md text-sm font-medium ${colors.bgColorClass} ${colors.textColorClass}`}>
                               {result.bestFit.name}
@@ -195,6 +250,7 @@ export default function AnalysisResults({ result, isAnalyzing, isMultiple = fals
                             result.bestFit.matchingSLOs.map((slo) => (
                               <span 
                                 key={`best-match-slo-${slo}`}
+                                title={getSLOText(result.bestFit!.name, slo)}
                                 className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-primary/10 text-primary"
                               >
                                 SLO {slo}
@@ -212,6 +268,7 @@ export default function AnalysisResults({ result, isAnalyzing, isMultiple = fals
                             result.bestFit.missingSLOs.map((slo) => (
                               <span 
                                 key={`best-missing-slo-${slo}`}
+                                title={getSLOText(result.bestFit!.name, slo)}
                                 className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-neutral-100 text-neutral-600"
                               >
                                 SLO {slo}
@@ -242,7 +299,7 @@ export default function AnalysisResults({ result, isAnalyzing, isMultiple = fals
                     <div className="flex items-center justify-between mb-2">
                       <div className="flex items-center">
                         {(() => {
-                          const colors = getRequirementColors(result.potentialFits[0].name);
+                          const colors = getColors(result.potentialFits[0].name);
                           return (
                             <span className={`inline-flex items-center px-3 py-1 rounded-md text-sm font-medium ${colors.bgColorClass} ${colors.textColorClass}`}>
                               {result.potentialFits[0].name}
@@ -318,6 +375,7 @@ export default function AnalysisResults({ result, isAnalyzing, isMultiple = fals
                           {req.matchingSLOs.map((slo) => (
                             <span 
                               key={`slo-${slo}`}
+                              title={getSLOText(req.name, slo)}
                               className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-primary/10 text-primary"
                             >
                               SLO {slo}
@@ -325,6 +383,13 @@ export default function AnalysisResults({ result, isAnalyzing, isMultiple = fals
                           ))}
                         </div>
                       </div>
+                      <BulletinChecks checks={req.bulletinChecks} />
+                      <EvidenceList
+                        sloEvidence={req.sloEvidence}
+                        elementEvidence={req.elementEvidence}
+                        getSLOText={(slo) => getSLOText(req.name, slo)}
+                        sections={result.sections}
+                      />
                     </div>
                   </div>
                 ))}
@@ -377,6 +442,7 @@ export default function AnalysisResults({ result, isAnalyzing, isMultiple = fals
                           {req.missingSLOs.map((slo) => (
                             <span 
                               key={`missing-slo-${slo}`}
+                              title={getSLOText(req.name, slo)}
                               className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-neutral-100 text-neutral-600"
                             >
                               SLO {slo}
@@ -384,6 +450,13 @@ export default function AnalysisResults({ result, isAnalyzing, isMultiple = fals
                           ))}
                         </div>
                       </div>
+                      <BulletinChecks checks={req.bulletinChecks} />
+                      <EvidenceList
+                        sloEvidence={req.sloEvidence}
+                        elementEvidence={req.elementEvidence}
+                        getSLOText={(slo) => getSLOText(req.name, slo)}
+                        sections={result.sections}
+                      />
                     </div>
                   </div>
                 ))}
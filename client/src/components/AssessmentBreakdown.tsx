@@ -0,0 +1,92 @@
+import { Assessment, AssessmentType, assessmentTypes } from "@shared/schema";
+import { formatAssessmentType } from "@/lib/utils";
+
+interface AssessmentBreakdownProps {
+  assessments?: Assessment[] | null;
+}
+
+// Badge colors for each kind of graded work
+const typeStyles: Record<AssessmentType, string> = {
+  exam: "bg-red-100 text-red-800",
+  quiz: "bg-orange-100 text-orange-800",
+  writing: "bg-lime-100 text-lime-800",
+  presentation: "bg-blue-100 text-blue-800",
+  lab: "bg-teal-100 text-teal-800",
+  project: "bg-purple-100 text-purple-800",
+  homework: "bg-amber-100 text-amber-800",
+  participation: "bg-neutral-100 text-neutral-700",
+  other: "bg-neutral-50 text-neutral-500",
+};
+
+export default function AssessmentBreakdown({ assessments }: AssessmentBreakdownProps) {
+  if (!assessments || assessments.length === 0) {
+    return <p className="text-sm text-neutral-500">No assignments or grading breakdown could be read from this syllabus.</p>;
+  }
+
+  // Share of the final grade by kind, for the kinds the syllabus weights
+  const weights = assessmentTypes
+    .map(type => ({
+      type,
+      weight: assessments
+        .filter(assessment => assessment.type === type)
+        .reduce((sum, assessment) => sum + (assessment.weight ?? 0), 0),
+    }))
+    .filter(item => item.weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+
+  return (
+    <div className="space-y-4">
+      {weights.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {weights.map(({ type, weight }) => (
+            <span
+              key={type}
+              className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${typeStyles[type]}`}
+            >
+              {formatAssessmentType(type)}: {Math.round(weight * 10) / 10}%
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-md border border-neutral-200">
+        <table className="min-w-full divide-y divide-neutral-200 border-collapse">
+          <thead className="bg-gradient-to-r from-neutral-50 to-neutral-100 border-b border-neutral-200">
+            <tr>
+              {["Assessment", "Type", "Count", "Weight", "Length", "Drafts & Revision", "Collaborative"].map(heading => (
+                <th
+                  key={heading}
+                  scope="col"
+                  className="px-4 py-3 text-left text-xs font-semibold text-neutral-600 uppercase tracking-wider"
+                >
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-neutral-200">
+            {assessments.map((assessment, index) => (
+              <tr key={`assessment-${index}`} className={index % 2 === 0 ? 'bg-white' : 'bg-neutral-50/50'}>
+                <td className="px-4 py-2 text-sm font-medium text-neutral-900">{assessment.name}</td>
+                <td className="px-4 py-2 text-sm">
+                  <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${typeStyles[assessment.type]}`}>
+                    {formatAssessmentType(assessment.type)}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-sm text-neutral-600">{assessment.count}</td>
+                <td className="px-4 py-2 text-sm text-neutral-600">
+                  {assessment.weight !== null ? `${assessment.weight}%` : <span className="text-neutral-400">—</span>}
+                </td>
+                <td className="px-4 py-2 text-sm text-neutral-600">{assessment.length || <span className="text-neutral-400">—</span>}</td>
+                <td className="px-4 py-2 text-sm text-neutral-600">
+                  {assessment.revisionSteps.length > 0 ? assessment.revisionSteps.join(", ") : <span className="text-neutral-400">—</span>}
+                </td>
+                <td className="px-4 py-2 text-sm text-neutral-600">{assessment.collaborative ? "Yes" : "No"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
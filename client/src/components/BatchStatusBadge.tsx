@@ -0,0 +1,25 @@
+import { BatchStatus, JobStatus } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+
+// Display name and colors of each batch and file status
+const STATUS_STYLES: Record<BatchStatus | JobStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-neutral-100 text-neutral-700 border-neutral-200" },
+  running: { label: "Running", className: "bg-blue-50 text-blue-700 border-blue-200" },
+  processing: { label: "Processing", className: "bg-blue-50 text-blue-700 border-blue-200" },
+  completed: { label: "Completed", className: "bg-green-50 text-green-700 border-green-200" },
+  partial: { label: "Partly failed", className: "bg-amber-50 text-amber-700 border-amber-200" },
+  failed: { label: "Failed", className: "bg-red-50 text-red-700 border-red-200" },
+};
+
+interface BatchStatusBadgeProps {
+  status: BatchStatus | JobStatus;
+}
+
+export default function BatchStatusBadge({ status }: BatchStatusBadgeProps) {
+  const style = STATUS_STYLES[status];
+  return (
+    <Badge variant="outline" className={style.className}>
+      {style.label}
+    </Badge>
+  );
+}
@@ -0,0 +1,41 @@
+import { BulletinCheck } from "@shared/schema";
+import { Check, HelpCircle, XCircle } from "lucide-react";
+
+interface BulletinChecksProps {
+  checks?: BulletinCheck[];
+}
+
+// Styling and wording for each check status
+const statusStyles: Record<BulletinCheck["status"], { className: string; label: string }> = {
+  pass: { className: "bg-green-100 text-green-800", label: "Pass" },
+  fail: { className: "bg-red-100 text-red-800", label: "Fail" },
+  unknown: { className: "bg-neutral-100 text-neutral-600", label: "No course code" },
+};
+
+export default function BulletinChecks({ checks }: BulletinChecksProps) {
+  if (!checks || checks.length === 0) return null;
+
+  return (
+    <div className="mt-3">
+      <h4 className="text-xs font-medium text-neutral-900 mb-1">Bulletin Requirements:</h4>
+      <ul className="space-y-1">
+        {checks.map((check, index) => {
+          const { className, label } = statusStyles[check.status];
+          const Icon = check.status === "pass" ? Check : check.status === "fail" ? XCircle : HelpCircle;
+          return (
+            <li key={`bulletin-${index}`} className="flex items-center gap-2 text-xs text-neutral-700">
+              <span className={`inline-flex items-center px-2 py-0.5 rounded font-medium ${className}`}>
+                <Icon size={12} className="mr-1" />
+                {label}
+              </span>
+              <span>
+                {check.description}
+                {check.courseCode && <span className="text-neutral-500"> ({check.courseCode})</span>}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { updateLearningOutcomes } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+
+interface CourseLearningOutcomesProps {
+  analysisId: number;
+  outcomes?: string[] | null;
+  editedAt?: Date | string | null;  // When a user last edited the outcomes
+}
+
+export default function CourseLearningOutcomes({ analysisId, outcomes, editedAt }: CourseLearningOutcomesProps) {
+  const [draft, setDraft] = useState<string[] | null>(null);  // The outcomes being edited, or null when not editing
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const updateDraft = (index: number, value: string) =>
+    setDraft(current => current && current.map((outcome, i) => i === index ? value : outcome));
+
+  const moveOutcome = (index: number, offset: number) =>
+    setDraft(current => {
+      if (!current) return current;
+      const reordered = [...current];
+      [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+      return reordered;
+    });
+
+  const removeOutcome = (index: number) =>
+    setDraft(current => current && current.filter((_, i) => i !== index));
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      setIsSaving(true);
+      await updateLearningOutcomes(analysisId, draft.map(outcome => outcome.trim()).filter(Boolean));
+      queryClient.invalidateQueries({ queryKey: ['/api/analyses'] });
+      setDraft(null);
+      toast({ title: "Learning outcomes saved" });
+    } catch (error: any) {
+      toast({
+        title: "Save failed",
+        description: error.message || "Failed to save the learning outcomes.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (draft) {
+    return (
+      <div className="space-y-3">
+        <ol className="space-y-2">
+          {draft.map((outcome, index) => (
+            <li key={`outcome-${index}`} className="flex items-start gap-2">
+              <span className="text-sm font-medium text-neutral-500 w-6 pt-2 text-right">{index + 1}.</span>
+              <Textarea
+                value={outcome}
+                onChange={event => updateDraft(index, event.target.value)}
+                className="min-h-[60px] flex-1"
+                aria-label={`Learning outcome ${index + 1}`}
+              />
+              <div className="flex flex-col gap-1">
+                <Button variant="ghost" size="sm" onClick={() => moveOutcome(index, -1)} disabled={index === 0} aria-label="Move up">
+                  <ArrowUp size={14} />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => moveOutcome(index, 1)} disabled={index === draft.length - 1} aria-label="Move down">
+                  <ArrowDown size={14} />
+                </Button>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => removeOutcome(index)} aria-label="Remove">
+                <Trash2 size={14} className="text-red-600" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+        <div className="flex justify-between">
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => setDraft([...draft, ""])}>
+            <Plus size={14} /> Add outcome
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setDraft(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {outcomes && outcomes.length > 0 ? (
+        <ol className="list-decimal pl-6 space-y-1">
+          {outcomes.map((outcome, index) => (
+            <li key={`outcome-${index}`} className="text-sm text-neutral-700">{outcome}</li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-sm text-neutral-500">No learning outcomes were extracted from this syllabus.</p>
+      )}
+      <div className="flex justify-between items-center">
+        <span className="text-xs text-neutral-500">
+          {editedAt ? `Edited ${formatDate(new Date(editedAt))}` : "Extracted from the syllabus"}
+        </span>
+        <Button variant="outline" size="sm" className="gap-1" onClick={() => setDraft([...(outcomes || [])])}>
+          <Pencil size={14} /> Edit
+        </Button>
+      </div>
+    </div>
+  );
+}
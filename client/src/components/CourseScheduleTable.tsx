@@ -0,0 +1,77 @@
+import { CourseSchedule, ScheduleActivityType } from "@shared/schema";
+import { formatActivityType } from "@/lib/utils";
+
+interface CourseScheduleTableProps {
+  schedule?: CourseSchedule | null;
+}
+
+// Badge colors for each kind of session
+const activityStyles: Record<ScheduleActivityType, string> = {
+  lecture: "bg-neutral-100 text-neutral-700",
+  discussion: "bg-blue-100 text-blue-800",
+  creative: "bg-purple-100 text-purple-800",
+  lab: "bg-teal-100 text-teal-800",
+  serviceLearning: "bg-green-100 text-green-800",
+  fieldwork: "bg-lime-100 text-lime-800",
+  assessment: "bg-amber-100 text-amber-800",
+  break: "bg-neutral-50 text-neutral-500",
+};
+
+export default function CourseScheduleTable({ schedule }: CourseScheduleTableProps) {
+  if (!schedule || schedule.rows.length === 0) {
+    return <p className="text-sm text-neutral-500">No course schedule could be read from this syllabus.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Share of the sessions that meet; breaks are listed but take no share */}
+      <div className="flex flex-wrap gap-2">
+        {schedule.shares.map(share => (
+          <span
+            key={share.activityType}
+            className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${activityStyles[share.activityType]}`}
+          >
+            {formatActivityType(share.activityType)}: {share.activityType === "break"
+              ? `${share.sessions} ${share.sessions === 1 ? "session" : "sessions"}`
+              : `${share.percentage}%`}
+          </span>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto rounded-md border border-neutral-200">
+        <table className="min-w-full divide-y divide-neutral-200 border-collapse">
+          <thead className="bg-gradient-to-r from-neutral-50 to-neutral-100 border-b border-neutral-200">
+            <tr>
+              {["When", "Topic", "Activity", "Due", "Type"].map(heading => (
+                <th
+                  key={heading}
+                  scope="col"
+                  className="px-4 py-3 text-left text-xs font-semibold text-neutral-600 uppercase tracking-wider"
+                >
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-neutral-200">
+            {schedule.rows.map((row, index) => (
+              <tr key={`schedule-${index}`} className={index % 2 === 0 ? 'bg-white' : 'bg-neutral-50/50'}>
+                <td className="px-4 py-2 text-sm font-medium text-neutral-900 whitespace-nowrap">{row.when}</td>
+                <td className="px-4 py-2 text-sm text-neutral-600">{row.topic || <span className="text-neutral-400">—</span>}</td>
+                <td className="px-4 py-2 text-sm text-neutral-600">{row.activity || <span className="text-neutral-400">—</span>}</td>
+                <td className="px-4 py-2 text-sm text-neutral-600">
+                  {row.dueItems.length > 0 ? row.dueItems.join("; ") : <span className="text-neutral-400">—</span>}
+                </td>
+                <td className="px-4 py-2 text-sm">
+                  <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${activityStyles[row.activityType]}`}>
+                    {formatActivityType(row.activityType)}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { ElementEvidence, SLOEvidence, SyllabusSection } from "@shared/schema";
+import { formatSectionAt } from "@/lib/utils";
+
+interface EvidenceListProps {
+  sloEvidence?: SLOEvidence[];
+  elementEvidence?: ElementEvidence[];
+  getSLOText?: (slo: number) => string | undefined;
+  sections?: SyllabusSection[] | null;   // Names the section each excerpt was found in
+}
+
+export default function EvidenceList({ sloEvidence = [], elementEvidence = [], getSLOText, sections }: EvidenceListProps) {
+  // Only list the items that have excerpts to show
+  const items = [
+    ...elementEvidence.map(evidence => ({ key: `element-${evidence.element}`, label: evidence.element, title: undefined, excerpts: evidence.excerpts })),
+    ...sloEvidence.map(evidence => ({ key: `slo-${evidence.slo}`, label: `SLO ${evidence.slo}`, title: getSLOText?.(evidence.slo), excerpts: evidence.excerpts })),
+  ].filter(item => item.excerpts.length > 0);
+
+  if (items.length === 0) return null;
+
+  return (
+    <details className="mt-3">
+      <summary className="text-xs font-medium text-neutral-900 cursor-pointer">Evidence from Syllabus</summary>
+      <ul className="mt-1 space-y-2">
+        {items.map(item => (
+          <li key={item.key} className="text-xs">
+            <span className="font-medium text-neutral-700" title={item.title}>{item.label}</span>
+            {item.excerpts.map((excerpt, index) => {
+              const section = formatSectionAt(sections, excerpt.start);
+              return (
+                <blockquote
+                  key={`${item.key}-${index}`}
+                  className="mt-1 pl-2 border-l-2 border-neutral-200 text-neutral-600 italic"
+                  title={`Characters ${excerpt.start}–${excerpt.end}`}
+                >
+                  {excerpt.text}
+                  {section && <span className="not-italic text-neutral-400"> — {section}</span>}
+                </blockquote>
+              );
+            })}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
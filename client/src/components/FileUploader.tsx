@@ -1,21 +1,36 @@
 import { useState, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { analyzeDocument } from "@/lib/api";
-import { AnalysisResult } from "@shared/schema";
+import { useSubmittedBy } from "@/hooks/use-submitted-by";
+import { AnalysisJobStatus, AnalysisResult, CatalogVersion } from "@shared/schema";
+import { formatJobStage } from "@/lib/utils";
 
 interface FileUploaderProps {
   onAnalysisComplete: (result: AnalysisResult) => void;
   onAnalysisStart: () => void;
+  onJobsQueued?: (jobIds: number[]) => void;  // Receives the IDs of the queued analysis jobs
 }
 
-export default function FileUploader({ onAnalysisComplete, onAnalysisStart }: FileUploaderProps) {
+export default function FileUploader({ onAnalysisComplete, onAnalysisStart, onJobsQueued }: FileUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [fileData, setFileData] = useState<{name: string, size: number, type: string} | null>(null);
   const [courseName, setCourseName] = useState("");
   const [courseCode, setCourseCode] = useState("");
+  const [forceReanalysis, setForceReanalysis] = useState(false);
+  const [catalogVersionId, setCatalogVersionId] = useState("");
+  const [submittedBy, setSubmittedBy] = useSubmittedBy();
+  const [job, setJob] = useState<AnalysisJobStatus | null>(null);
+  
+  // Only published catalog versions can be analyzed against
+  const { data: catalogVersions } = useQuery<CatalogVersion[]>({
+    queryKey: ['/api/catalog-versions'],
+    staleTime: 60000 // 1 minute
+  });
+  const publishedVersions = catalogVersions?.filter(version => version.status === "published") || [];
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -90,6 +105,7 @@ export default function FileUploader({ onAnalysisComplete, onAnalysisStart }: Fi
     try {
       setIsUploading(true);
       setUploadProgress(0);
+      setJob(null);
       onAnalysisStart();
       
       // Create new AbortController for this upload
@@ -111,7 +127,26 @@ export default function FileUploader({ onAnalysisComplete, onAnalysisStart }: Fi
       formData.append('courseName', courseName.trim());
       formData.append('courseCode', courseCode.trim());
       
-      const result = await analyzeDocument(formData, abortControllerRef.current.signal);
+      // An empty selection lets the server use the active catalog version
+      if (catalogVersionId) {
+        formData.append('catalogVersionId', catalogVersionId);
+      }
+      
+      // Recorded for the usage report
+      if (submittedBy.trim()) {
+        formData.append('submittedBy', submittedBy.trim());
+      }
+      
+      // Identical syllabi reuse the cached result unless a fresh analysis is requested
+      if (forceReanalysis) {
+        formData.append('force', 'true');
+      }
+      
+      // The analysis is queued on the server; poll it until it finishes
+      const result = await analyzeDocument(formData, abortControllerRef.current.signal, (update) => {
+        setJob(update);
+        onJobsQueued?.([update.id]);
+      });
       
       clearInterval(progressInterval);
       setUploadProgress(100);
@@ -150,9 +185,12 @@ export default function FileUploader({ onAnalysisComplete, onAnalysisStart }: Fi
     setIsUploading(false);
     setUploadProgress(0);
     
+    // Once queued, the analysis carries on without the browser
     toast({
-      title: "Upload cancelled",
-      description: "File upload was cancelled.",
+      title: job ? "Stopped waiting" : "Upload cancelled",
+      description: job
+        ? "The analysis continues in the background and will appear in the database."
+        : "File upload was cancelled.",
     });
   };
   
@@ -194,6 +232,50 @@ export default function FileUploader({ onAnalysisComplete, onAnalysisStart }: Fi
               className="w-full px-3 py-2 border border-neutral-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary"
             />
           </div>
+          <div className="md:col-span-2">
+            <label htmlFor="submittedBy" className="block text-sm font-medium text-neutral-700 mb-1">
+              Submitted By
+            </label>
+            <input
+              type="text"
+              id="submittedBy"
+              value={submittedBy}
+              onChange={(e) => setSubmittedBy(e.target.value)}
+              placeholder="Your name or email"
+              className="w-full px-3 py-2 border border-neutral-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary"
+            />
+          </div>
+          {publishedVersions.length > 1 && (
+            <div className="md:col-span-2">
+              <label htmlFor="catalogVersion" className="block text-sm font-medium text-neutral-700 mb-1">
+                Requirement Catalog
+              </label>
+              <select
+                id="catalogVersion"
+                value={catalogVersionId}
+                onChange={(e) => setCatalogVersionId(e.target.value)}
+                className="w-full px-3 py-2 border border-neutral-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary"
+              >
+                <option value="">Current catalog</option>
+                {publishedVersions.map(version => (
+                  <option key={version.id} value={version.id.toString()}>
+                    {version.name}{version.isActive ? " (current)" : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="md:col-span-2">
+            <label className="inline-flex items-center text-sm text-neutral-700">
+              <input
+                type="checkbox"
+                checked={forceReanalysis}
+                onChange={(e) => setForceReanalysis(e.target.checked)}
+                className="mr-2 rounded border-neutral-300 text-primary focus:ring-primary"
+              />
+              Re-analyze even if this syllabus was analyzed before
+            </label>
+          </div>
         </div>
         
         <div 
@@ -259,9 +341,9 @@ export default function FileUploader({ onAnalysisComplete, onAnalysisStart }: Fi
                     style={{ width: `${uploadProgress}%` }}
                   />
                 </div>
-                {uploadProgress > 50 && (
+                {job && (
                   <p className="text-xs text-neutral-500 mt-1">
-                    Using AI to analyze syllabus content against Gen Ed requirements...
+                    {formatJobStage(job)}
                   </p>
                 )}
               </div>
@@ -1,22 +1,38 @@
 import { useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { analyzeMultipleDocuments } from "@/lib/api";
-import { AnalysisResult } from "@shared/schema";
+import { useSubmittedBy } from "@/hooks/use-submitted-by";
+import { formatJobStage } from "@/lib/utils";
+import { AnalysisJobStatus, AnalysisResult, CatalogVersion } from "@shared/schema";
 import { AlertCircle, CheckCircle, Trash2, Upload } from "lucide-react";
 
 interface MultiFileUploaderProps {
   onAnalysisComplete: (results: AnalysisResult[]) => void;
   onAnalysisStart: () => void;
+  onJobsQueued?: (jobIds: number[]) => void;  // Receives the IDs of the queued analysis jobs
 }
 
-export default function MultiFileUploader({ onAnalysisComplete, onAnalysisStart }: MultiFileUploaderProps) {
+export default function MultiFileUploader({ onAnalysisComplete, onAnalysisStart, onJobsQueued }: MultiFileUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [courseInfoMap, setCourseInfoMap] = useState<Record<string, { name: string; code: string }>>({});
+  const [forceReanalysis, setForceReanalysis] = useState(false);
+  const [batchName, setBatchName] = useState("");
+  const [catalogVersionId, setCatalogVersionId] = useState("");
+  const [submittedBy, setSubmittedBy] = useSubmittedBy();
+  const [jobs, setJobs] = useState<AnalysisJobStatus[]>([]);
+  
+  // Only published catalog versions can be analyzed against
+  const { data: catalogVersions } = useQuery<CatalogVersion[]>({
+    queryKey: ['/api/catalog-versions'],
+    staleTime: 60000 // 1 minute
+  });
+  const publishedVersions = catalogVersions?.filter(version => version.status === "published") || [];
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -110,6 +126,7 @@ export default function MultiFileUploader({ onAnalysisComplete, onAnalysisStart
     try {
       setIsUploading(true);
       setUploadProgress(0);
+      setJobs([]);
       onAnalysisStart();
       
       // Create new AbortController for this upload
@@ -142,7 +159,31 @@ export default function MultiFileUploader({ onAnalysisComplete, onAnalysisStart
         }
       });
       
-      const results = await analyzeMultipleDocuments(formData, abortControllerRef.current.signal);
+      // Recorded for the usage report
+      if (submittedBy.trim()) {
+        formData.append('submittedBy', submittedBy.trim());
+      }
+      
+      // An empty selection lets the server use the active catalog version
+      if (catalogVersionId) {
+        formData.append('catalogVersionId', catalogVersionId);
+      }
+      
+      // The server names unnamed batches after their size and date
+      if (batchName.trim()) {
+        formData.append('batchName', batchName.trim());
+      }
+      
+      // Identical syllabi reuse cached results unless a fresh analysis is requested
+      if (forceReanalysis) {
+        formData.append('force', 'true');
+      }
+      
+      // Each file is queued on the server; poll the jobs until they all finish
+      const results = await analyzeMultipleDocuments(formData, abortControllerRef.current.signal, (updates) => {
+        setJobs(updates);
+        onJobsQueued?.(updates.map(update => update.id));
+      });
       
       clearInterval(progressInterval);
       setUploadProgress(100);
@@ -152,6 +193,7 @@ export default function MultiFileUploader({ onAnalysisComplete, onAnalysisStart
         setIsUploading(false);
         setSelectedFiles([]);
         setCourseInfoMap({});
+        setBatchName("");
         
         if (results.success.length > 0) {
           onAnalysisComplete(results.success);
@@ -161,18 +203,18 @@ export default function MultiFileUploader({ onAnalysisComplete, onAnalysisStart
         if (results.success.length > 0 && results.errors.length === 0) {
           toast({
             title: "Analysis complete",
-            description: `Successfully analyzed ${results.success.length} syllabi.`,
+            description: `Successfully analyzed ${results.success.length} syllabi. The batch is listed under Batches.`,
           });
         } else if (results.success.length > 0 && results.errors.length > 0) {
           toast({
             title: "Analysis partially complete",
-            description: `Analyzed ${results.success.length} syllabi with ${results.errors.length} errors.`,
+            description: `Analyzed ${results.success.length} syllabi with ${results.errors.length} errors. Failed files can be re-run from Batches.`,
             variant: "destructive"
           });
         } else if (results.success.length === 0 && results.errors.length > 0) {
           toast({
             title: "Analysis failed",
-            description: `Failed to analyze any of the ${results.errors.length} syllabi.`,
+            description: `Failed to analyze any of the ${results.errors.length} syllabi. They can be re-run from Batches.`,
             variant: "destructive"
           });
         }
@@ -201,9 +243,12 @@ export default function MultiFileUploader({ onAnalysisComplete, onAnalysisStart
     setIsUploading(false);
     setUploadProgress(0);
     
+    // Once queued, the analyses carry on without the browser
     toast({
-      title: "Upload cancelled",
-      description: "File upload was cancelled.",
+      title: jobs.length > 0 ? "Stopped waiting" : "Upload cancelled",
+      description: jobs.length > 0
+        ? "The analyses continue in the background and will appear in the database."
+        : "File upload was cancelled.",
     });
   };
   
@@ -306,7 +351,51 @@ export default function MultiFileUploader({ onAnalysisComplete, onAnalysisStart
                 </div>
               ))}
             </div>
-            <div className="flex justify-end mt-3">
+            <div className="mt-3">
+              <input
+                type="text"
+                placeholder="Batch name (e.g. History department, March)"
+                className="w-full px-2 py-1 text-sm border border-neutral-300 rounded-md"
+                value={batchName}
+                onChange={(e) => setBatchName(e.target.value)}
+              />
+            </div>
+            <div className="mt-3">
+              <input
+                type="text"
+                placeholder="Submitted by (your name or email)"
+                className="w-full px-2 py-1 text-sm border border-neutral-300 rounded-md"
+                value={submittedBy}
+                onChange={(e) => setSubmittedBy(e.target.value)}
+              />
+            </div>
+            {publishedVersions.length > 1 && (
+              <div className="mt-3">
+                <select
+                  aria-label="Requirement catalog"
+                  value={catalogVersionId}
+                  onChange={(e) => setCatalogVersionId(e.target.value)}
+                  className="w-full px-2 py-1 text-sm border border-neutral-300 rounded-md bg-white"
+                >
+                  <option value="">Current catalog</option>
+                  {publishedVersions.map(version => (
+                    <option key={version.id} value={version.id.toString()}>
+                      {version.name}{version.isActive ? " (current)" : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="flex items-center justify-between mt-3">
+              <label className="inline-flex items-center text-sm text-neutral-700">
+                <input
+                  type="checkbox"
+                  checked={forceReanalysis}
+                  onChange={(e) => setForceReanalysis(e.target.checked)}
+                  className="mr-2 rounded border-neutral-300 text-primary focus:ring-primary"
+                />
+                Re-analyze syllabi that were analyzed before
+              </label>
               <Button 
                 onClick={uploadAndAnalyzeFiles}
                 className="bg-primary text-white"
@@ -349,7 +438,14 @@ export default function MultiFileUploader({ onAnalysisComplete, onAnalysisStart
               </div>
               <div className="flex-1">
                 <div className="flex justify-between mb-1">
-                  <span className="text-sm font-medium text-neutral-900">Uploading {selectedFiles.length} files</span>
+                  <span className="text-sm font-medium text-neutral-900">
+                    {jobs.length > 0 ? `Analyzing ${jobs.length} files` : `Uploading ${selectedFiles.length} files`}
+                  </span>
+                  {jobs.length > 0 && (
+                    <span className="text-sm text-neutral-500">
+                      {jobs.filter(job => job.status === 'completed' || job.status === 'failed').length} of {jobs.length} done
+                    </span>
+                  )}
                 </div>
                 <div className="w-full bg-neutral-100 rounded-full h-1.5">
                   <div 
@@ -357,10 +453,14 @@ export default function MultiFileUploader({ onAnalysisComplete, onAnalysisStart
                     style={{ width: `${uploadProgress}%` }}
                   />
                 </div>
-                {uploadProgress > 50 && (
-                  <p className="text-xs text-neutral-500 mt-1">
-                    Using AI to analyze syllabus content against Gen Ed requirements...
-                  </p>
+                {jobs.length > 0 && (
+                  <ul className="mt-1 space-y-0.5">
+                    {jobs.map(job => (
+                      <li key={job.id} className="text-xs text-neutral-500">
+                        <span className="font-medium text-neutral-700">{job.fileName}</span>: {formatJobStage(job)}
+                      </li>
+                    ))}
+                  </ul>
                 )}
               </div>
               <button 
@@ -41,6 +41,24 @@ export default function Nav() {
                   Database
                 </a>
               </Link>
+              <Link href="/batches">
+                <a className={`inline-flex items-center px-3 pt-1 border-b-2 text-sm font-medium ${
+                  location.startsWith('/batches') 
+                    ? 'border-primary text-neutral-900' 
+                    : 'border-transparent text-neutral-600 hover:text-neutral-900 hover:border-neutral-300'
+                }`}>
+                  Batches
+                </a>
+              </Link>
+              <Link href="/usage">
+                <a className={`inline-flex items-center px-3 pt-1 border-b-2 text-sm font-medium ${
+                  location === '/usage' 
+                    ? 'border-primary text-neutral-900' 
+                    : 'border-transparent text-neutral-600 hover:text-neutral-900 hover:border-neutral-300'
+                }`}>
+                  Usage
+                </a>
+              </Link>
               <Link href="/help">
                 <a className={`inline-flex items-center px-3 pt-1 border-b-2 text-sm font-medium ${
                   location === '/help' 
@@ -91,6 +109,24 @@ export default function Nav() {
               Database
             </a>
           </Link>
+          <Link href="/batches">
+            <a className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
+              location.startsWith('/batches') 
+                ? 'bg-neutral-50 border-primary text-primary' 
+                : 'border-transparent text-neutral-600 hover:bg-neutral-50 hover:border-neutral-300 hover:text-neutral-900'
+            }`}>
+              Batches
+            </a>
+          </Link>
+          <Link href="/usage">
+            <a className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
+              location === '/usage' 
+                ? 'bg-neutral-50 border-primary text-primary' 
+                : 'border-transparent text-neutral-600 hover:bg-neutral-50 hover:border-neutral-300 hover:text-neutral-900'
+            }`}>
+              Usage
+            </a>
+          </Link>
           <Link href="/help">
             <a className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
               location === '/help' 
@@ -3,13 +3,14 @@ import { useQuery } from "@tanstack/react-query";
 import { Analysis } from "@shared/schema";
 import { formatDate } from "@/lib/utils";
 import { Link } from "wouter";
-import { getRequirementColors } from "@/lib/requirementColors";
+import { useRequirements } from "@/hooks/use-requirements";
 
 export default function RecentAnalyses() {
   const { data: recentAnalyses, isLoading } = useQuery<Analysis[]>({
     queryKey: ['/api/analyses/recent/3'],
     staleTime: 60000 // 1 minute
   });
+  const { getColors } = useRequirements();
   
   return (
     <Card>
@@ -33,7 +34,7 @@ export default function RecentAnalyses() {
                 </p>
                 <div className="mt-1 flex flex-wrap gap-1">
                   {Array.isArray(analysis.approvedRequirements) && analysis.approvedRequirements.map((req: any) => {
-                    const { bgColorClass, textColorClass } = getRequirementColors(req.name);
+                    const { bgColorClass, textColorClass } = getColors(req.name);
                     return (
                       <span 
                         key={`${analysis.id}-${req.name}`}
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Analysis, UnanalyzedRequirement } from "@shared/schema";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { retryUnanalyzedRequirements } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+
+interface UnanalyzedRequirementsProps {
+  requirements?: UnanalyzedRequirement[];
+  analysisId?: number;                         // Enables the retry button
+  onRetried?: (analysis: Analysis) => void;
+}
+
+export default function UnanalyzedRequirements({ requirements, analysisId, onRetried }: UnanalyzedRequirementsProps) {
+  const [isRetrying, setIsRetrying] = useState(false);
+  const { toast } = useToast();
+
+  if (!requirements || requirements.length === 0) return null;
+
+  const handleRetry = async () => {
+    if (!analysisId) return;
+    try {
+      setIsRetrying(true);
+      const updated = await retryUnanalyzedRequirements(analysisId);
+      queryClient.invalidateQueries({ queryKey: ['/api/analyses'] });
+
+      const remaining = (updated.unanalyzedRequirements || []).length;
+      toast({
+        title: remaining === 0 ? "Retry complete" : "Retry partly complete",
+        description: remaining === 0
+          ? "All requirements have now been analyzed."
+          : `${remaining} requirement(s) still could not be analyzed.`,
+        variant: remaining === 0 ? "default" : "destructive",
+      });
+      onRetried?.(updated);
+    } catch (error: any) {
+      toast({
+        title: "Retry failed",
+        description: error.message || "Failed to retry the unanalyzed requirements.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-100 rounded-md p-3 mb-4">
+      <div className="flex items-start justify-between gap-2">
+        <h3 className="font-medium text-amber-800 flex items-center">
+          <AlertTriangle size={16} className="mr-1" /> Could Not Be Analyzed
+        </h3>
+        {analysisId && (
+          <Button variant="outline" size="sm" onClick={handleRetry} disabled={isRetrying} className="gap-1">
+            <RefreshCw size={14} className={isRetrying ? "animate-spin" : ""} />
+            {isRetrying ? "Retrying..." : "Retry"}
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-amber-700 mt-1">
+        These requirements were neither approved nor rejected because the analysis failed.
+      </p>
+      <ul className="mt-2 space-y-1">
+        {requirements.map(req => (
+          <li key={req.name} className="text-sm text-amber-800">
+            <span className="font-medium">{req.name}</span>
+            <span className="text-xs text-amber-700"> — {req.reason}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { AnalysisProgressEvent } from "@shared/schema";
+
+/**
+ * Follow the progress of analysis jobs over a WebSocket
+ * @param jobIds Jobs to follow; nothing is opened while empty
+ * @returns Progress events received so far, keyed by job ID
+ */
+export function useAnalysisProgress(jobIds: number[]): Record<number, AnalysisProgressEvent[]> {
+  const [events, setEvents] = useState<Record<number, AnalysisProgressEvent[]>>({});
+  const key = jobIds.join(",");
+
+  useEffect(() => {
+    setEvents({});
+    if (!key) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(`${protocol}//${window.location.host}/ws/progress?jobs=${key}`);
+
+    socket.onmessage = (message) => {
+      const event: AnalysisProgressEvent = JSON.parse(message.data);
+      setEvents(prev => ({ ...prev, [event.jobId]: [...(prev[event.jobId] || []), event] }));
+    };
+
+    // The uploaders poll the jobs as well, so a lost connection only loses the step details
+    return () => socket.close();
+  }, [key]);
+
+  return events;
+}
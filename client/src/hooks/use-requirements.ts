@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { Requirement } from "@shared/schema";
+import { getRequirementColors } from "@/lib/requirementColors";
+
+/**
+ * Load the Gen Ed requirements catalog the analyzer checks against
+ * @param catalogVersionId Catalog version to load; the active catalog when omitted
+ * @returns The requirements plus lookups for colors and SLO text
+ */
+export function useRequirements(catalogVersionId?: number | null) {
+  const url = catalogVersionId
+    ? `/api/requirements?catalogVersionId=${catalogVersionId}`
+    : "/api/requirements";
+
+  const { data: requirements = [], isLoading } = useQuery<Requirement[]>({
+    queryKey: [url],
+  });
+
+  const getColors = (requirementName: string) => getRequirementColors(requirementName, requirements);
+
+  // SLO numbers in analysis results are 1-based positions in the requirement's SLO list
+  const getSLOText = (requirementName: string, sloNumber: number) =>
+    requirements.find(req => req.name === requirementName)?.slos[sloNumber - 1];
+
+  return { requirements, isLoading, getColors, getSLOText };
+}
@@ -0,0 +1,18 @@
+import { useState } from "react";
+
+const STORAGE_KEY = "submittedBy";
+
+/**
+ * Who is uploading syllabi, remembered in the browser between visits
+ * @returns The submitter's name or email, and a setter that also stores it
+ */
+export function useSubmittedBy(): [string, (value: string) => void] {
+  const [submittedBy, setSubmittedByState] = useState(() => localStorage.getItem(STORAGE_KEY) || "");
+
+  const setSubmittedBy = (value: string) => {
+    setSubmittedByState(value);
+    localStorage.setItem(STORAGE_KEY, value);
+  };
+
+  return [submittedBy, setSubmittedBy];
+}
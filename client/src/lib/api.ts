@@ -1,12 +1,20 @@
-import { AnalysisResult } from "@shared/schema";
+import { Analysis, AnalysisJobStatus, AnalysisResult } from "@shared/schema";
+
+// How often to check on a queued analysis
+const JOB_POLL_INTERVAL_MS = 2000;
 
 /**
- * Upload and analyze a document
+ * Upload a document and wait for its analysis
  * @param formData FormData containing the file and optional metadata
  * @param signal AbortSignal for cancellation
+ * @param onProgress Called with the job each time it is checked
  * @returns Promise<AnalysisResult>
  */
-export async function analyzeDocument(formData: FormData, signal?: AbortSignal): Promise<AnalysisResult> {
+export async function analyzeDocument(
+  formData: FormData,
+  signal?: AbortSignal,
+  onProgress?: (job: AnalysisJobStatus) => void
+): Promise<AnalysisResult> {
   const response = await fetch('/api/analyze', {
     method: 'POST',
     body: formData,
@@ -19,9 +27,92 @@ export async function analyzeDocument(formData: FormData, signal?: AbortSignal):
     throw new Error(errorText || response.statusText || 'Failed to analyze document');
   }
   
+  // The analysis runs in the background
+  const queued: AnalysisJobStatus = await response.json();
+  onProgress?.(queued);
+  
+  const job = await waitForJob(queued.id, signal, onProgress);
+  if (job.status === 'failed') {
+    throw new Error(job.error || 'Failed to analyze document');
+  }
+  
+  return await getJobResult(job.id, signal);
+}
+
+/**
+ * Get the status of an analysis job
+ * @param id Job ID
+ * @param signal AbortSignal for cancellation
+ * @returns Promise<AnalysisJobStatus>
+ */
+export async function getJob(id: number, signal?: AbortSignal): Promise<AnalysisJobStatus> {
+  const response = await fetch(`/api/jobs/${id}`, {
+    signal,
+    credentials: 'include'
+  });
+  
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || response.statusText || 'Failed to fetch job');
+  }
+  
   return await response.json();
 }
 
+/**
+ * Get the analysis a completed job produced
+ * @param id Job ID
+ * @param signal AbortSignal for cancellation
+ * @returns Promise<AnalysisResult>
+ */
+export async function getJobResult(id: number, signal?: AbortSignal): Promise<AnalysisResult> {
+  const response = await fetch(`/api/jobs/${id}/result`, {
+    signal,
+    credentials: 'include'
+  });
+  
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || response.statusText || 'Failed to fetch analysis result');
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Poll an analysis job until it completes or finally fails
+ * @param id Job ID
+ * @param signal AbortSignal to stop waiting; the job itself keeps running
+ * @param onProgress Called with the job each time it is checked
+ * @returns Promise<AnalysisJobStatus> The finished job
+ */
+export async function waitForJob(
+  id: number,
+  signal?: AbortSignal,
+  onProgress?: (job: AnalysisJobStatus) => void
+): Promise<AnalysisJobStatus> {
+  while (true) {
+    const job = await getJob(id, signal);
+    onProgress?.(job);
+    if (job.status === 'completed' || job.status === 'failed') {
+      return job;
+    }
+    
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Stopped waiting for the analysis', 'AbortError'));
+      };
+      // Each poll removes its listener so they do not pile up on the signal
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, JOB_POLL_INTERVAL_MS);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
 /**
  * Get all analyses from the database
  * @returns Promise<Analysis[]>
@@ -94,12 +185,18 @@ export async function searchAnalyses(query: string) {
 }
 
 /**
- * Upload and analyze multiple documents
+ * Upload multiple documents and wait for their analyses
  * @param formData FormData containing the files and optional metadata
  * @param signal AbortSignal for cancellation
- * @returns Promise<{success: AnalysisResult[], errors: {fileName: string, error: string}[]}>
+ * @param onProgress Called with every file's job each time one is checked
+ * @returns Promise<{batchId: string, success: AnalysisResult[], errors: {fileName: string, error: string}[]}>
  */
-export async function analyzeMultipleDocuments(formData: FormData, signal?: AbortSignal): Promise<{
+export async function analyzeMultipleDocuments(
+  formData: FormData,
+  signal?: AbortSignal,
+  onProgress?: (jobs: AnalysisJobStatus[]) => void
+): Promise<{
+  batchId: string,
   success: AnalysisResult[],
   errors: {fileName: string, error: string}[]
 }> {
@@ -115,7 +212,30 @@ export async function analyzeMultipleDocuments(formData: FormData, signal?: Abor
     throw new Error(errorText || response.statusText || 'Failed to analyze documents');
   }
   
-  return await response.json();
+  // Each file is analyzed by its own background job
+  const { batchId, jobs }: { batchId: string, jobs: AnalysisJobStatus[] } = await response.json();
+  const latest = [...jobs];
+  onProgress?.(latest);
+  
+  const finished = await Promise.all(jobs.map((job, index) =>
+    waitForJob(job.id, signal, update => {
+      latest[index] = update;
+      onProgress?.([...latest]);
+    })
+  ));
+  
+  // Results are fetched once every job has finished, rather than carried on each poll
+  const success = await Promise.all(finished
+    .filter(job => job.status === 'completed')
+    .map(job => getJobResult(job.id, signal)));
+  
+  return {
+    batchId,
+    success,
+    errors: finished
+      .filter(job => job.status === 'failed')
+      .map(job => ({ fileName: job.fileName, error: job.error || 'Error analyzing file' }))
+  };
 }
 
 /**
@@ -136,3 +256,63 @@ export async function deleteAnalysis(id: number): Promise<{message: string}> {
   
   return await response.json();
 }
+
+/**
+ * Retry the requirements an analysis could not analyze
+ * @param id Analysis ID
+ * @returns Promise<Analysis> The updated analysis
+ */
+export async function retryUnanalyzedRequirements(id: number): Promise<Analysis> {
+  const response = await fetch(`/api/analyses/${id}/retry-unanalyzed`, {
+    method: 'POST',
+    credentials: 'include'
+  });
+  
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || response.statusText || 'Failed to retry unanalyzed requirements');
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Queue the failed files of a batch again
+ * @param id Batch ID
+ * @returns Promise<{requeued: number}> Number of files queued
+ */
+export async function rerunFailedBatchFiles(id: string): Promise<{requeued: number}> {
+  const response = await fetch(`/api/batches/${id}/rerun`, {
+    method: 'POST',
+    credentials: 'include'
+  });
+  
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || response.statusText || 'Failed to re-run batch files');
+  }
+  
+  return await response.json();
+}
+
+/**
+ * Replace the course learning outcomes of an analysis
+ * @param id Analysis ID
+ * @param learningOutcomes The learning outcomes, in order
+ * @returns Promise<Analysis> The updated analysis
+ */
+export async function updateLearningOutcomes(id: number, learningOutcomes: string[]): Promise<Analysis> {
+  const response = await fetch(`/api/analyses/${id}/learning-outcomes`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ learningOutcomes }),
+    credentials: 'include'
+  });
+  
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || response.statusText || 'Failed to update learning outcomes');
+  }
+  
+  return await response.json();
+}
@@ -1,6 +1,7 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
 import { format } from "date-fns"
+import type { AnalysisCoverage, AnalysisJobStatus, AssessmentType, ScheduleActivityType, StageTiming, SyllabusSection, SyllabusSectionType } from "@shared/schema"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -14,3 +15,132 @@ export function cn(...inputs: ClassValue[]) {
 export function formatDate(date: Date): string {
   return format(date, 'MMM d, yyyy');
 }
+
+/**
+ * Format the share of a document an analysis considered
+ * @param coverage Coverage recorded on the analysis
+ * @returns Percentage string, e.g. "85%"
+ */
+export function formatCoverage(coverage: AnalysisCoverage): string {
+  if (coverage.totalCharacters === 0) return '100%';
+  return `${Math.floor((coverage.analyzedCharacters / coverage.totalCharacters) * 100)}%`;
+}
+
+/**
+ * Describe how an analysis was produced
+ * @param method The stored analysis method
+ * @returns Human-readable analysis method
+ */
+export function formatAnalysisMethod(method?: string | null): string {
+  switch (method) {
+    case 'ai': return 'AI-Powered Analysis';
+    case 'keyword': return 'Keyword Analysis';
+    case 'fixture': return 'Recorded Analysis';
+    default: return 'Not recorded';
+  }
+}
+
+/**
+ * Format how long an analysis stage took
+ * @param timing The recorded stage timing
+ * @returns Duration string, e.g. "2.4s"
+ */
+export function formatStageDuration(timing: StageTiming): string {
+  const ms = new Date(timing.completedAt).getTime() - new Date(timing.startedAt).getTime();
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Format an estimated cost in US dollars
+ * @param cost Cost in dollars
+ * @returns Cost string, e.g. "$0.0312"
+ */
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Describe what a queued analysis is doing
+ * @param job The analysis job
+ * @returns Progress message for the uploader
+ */
+export function formatJobStage(job: AnalysisJobStatus): string {
+  const retry = job.attempts > 1 ? ` (attempt ${job.attempts} of ${job.maxAttempts})` : '';
+  if (job.status === 'completed') return 'Analysis complete';
+  if (job.status === 'failed') return `Analysis failed: ${job.error || 'unknown error'}`;
+  if (job.status === 'queued') {
+    return job.attempts > 0 ? `Waiting to retry: ${job.error || 'the last attempt failed'}` : 'Waiting for a free analyzer...';
+  }
+  switch (job.stage) {
+    case 'extracting': return `Extracting text from the document${retry}...`;
+    case 'analyzing': return `Using AI to analyze syllabus content against Gen Ed requirements${retry}...`;
+    case 'saving': return 'Saving the analysis...';
+    default: return `Starting the analysis${retry}...`;
+  }
+}
+
+// Display names of the standard syllabus sections
+const SECTION_LABELS: Record<SyllabusSectionType, string> = {
+  courseInfo: 'Course Information',
+  description: 'Description',
+  learningOutcomes: 'Learning Outcomes',
+  materials: 'Required Materials',
+  assignments: 'Assignments',
+  grading: 'Grading',
+  schedule: 'Schedule',
+  policies: 'Policies',
+};
+
+/**
+ * Name the syllabus section a position of the text falls in
+ * @param sections Sections found by the segmenter
+ * @param offset Character offset into the syllabus text
+ * @returns Display name of the section, or undefined if the analysis has no sections
+ */
+export function formatSectionAt(sections: SyllabusSection[] | null | undefined, offset: number): string | undefined {
+  const section = sections?.find(section => offset >= section.start && offset < section.end);
+  return section ? SECTION_LABELS[section.type] : undefined;
+}
+
+// Display names of the kinds of scheduled session
+const ACTIVITY_TYPE_LABELS: Record<ScheduleActivityType, string> = {
+  lecture: 'Lecture',
+  discussion: 'Discussion',
+  creative: 'Creative',
+  lab: 'Lab',
+  serviceLearning: 'Service Learning',
+  fieldwork: 'Fieldwork',
+  assessment: 'Assessment',
+  break: 'No Class',
+};
+
+/**
+ * Format the kind of a scheduled session for display
+ * @param activityType Kind of session found by the schedule parser
+ * @returns Display name of the kind
+ */
+export function formatActivityType(activityType: ScheduleActivityType): string {
+  return ACTIVITY_TYPE_LABELS[activityType];
+}
+
+// Display names of the kinds of graded work
+const ASSESSMENT_TYPE_LABELS: Record<AssessmentType, string> = {
+  exam: 'Exam',
+  quiz: 'Quiz',
+  writing: 'Writing',
+  presentation: 'Presentation',
+  lab: 'Lab',
+  project: 'Project',
+  homework: 'Homework',
+  participation: 'Participation',
+  other: 'Other',
+};
+
+/**
+ * Format the kind of an assessment for display
+ * @param type Kind of graded work found by the assessment parser
+ * @returns Display name of the kind
+ */
+export function formatAssessmentType(type: AssessmentType): string {
+  return ASSESSMENT_TYPE_LABELS[type];
+}
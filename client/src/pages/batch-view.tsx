@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useRoute } from "wouter";
+import { BatchDetail } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ArrowLeft, Download, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { rerunFailedBatchFiles } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import BatchStatusBadge from "@/components/BatchStatusBadge";
+
+export default function BatchView() {
+  const [match, params] = useRoute<{ id: string }>("/batches/:id");
+  const id = match ? params?.id : undefined;
+  const [isRerunning, setIsRerunning] = useState(false);
+  const { toast } = useToast();
+  
+  const { data: batch, isLoading } = useQuery<BatchDetail>({
+    queryKey: [`/api/batches/${id}`],
+    enabled: !!id,
+    // Follow the files while they are being analyzed
+    refetchInterval: (query) => query.state.data?.status === "processing" ? 3000 : false,
+  });
+  
+  const rerunnable = batch?.files.filter(file => file.canRerun).length ?? 0;
+  
+  const handleRerun = async () => {
+    if (!id) return;
+    try {
+      setIsRerunning(true);
+      const { requeued } = await rerunFailedBatchFiles(id);
+      queryClient.invalidateQueries({ queryKey: [`/api/batches/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/batches'] });
+      
+      toast({
+        title: "Files queued",
+        description: `${requeued} failed file(s) will be analyzed again.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Re-run failed",
+        description: error.message || "Failed to re-run the failed files.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRerunning(false);
+    }
+  };
+  
+  if (isLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary mb-2"></div>
+        <p className="text-neutral-600">Loading batch...</p>
+      </div>
+    );
+  }
+  
+  if (!batch) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <p className="text-neutral-600">Batch not found.</p>
+        <Link href="/batches">
+          <a className="text-primary hover:underline text-sm">Back to batches</a>
+        </Link>
+      </div>
+    );
+  }
+  
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Link href="/batches">
+        <a className="inline-flex items-center text-sm text-neutral-600 hover:text-neutral-900 mb-4">
+          <ArrowLeft size={16} className="mr-1" /> All batches
+        </a>
+      </Link>
+      
+      <div className="mb-8 flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-serif font-bold text-neutral-900 flex items-center gap-3">
+            {batch.name} <BatchStatusBadge status={batch.status} />
+          </h1>
+          <p className="mt-2 text-neutral-600 text-sm">
+            Uploaded {formatDate(batch.createdAt)}
+            {batch.submittedBy && <> by {batch.submittedBy}</>}
+            {" · "}{batch.files.length} file(s)
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {rerunnable > 0 && (
+            <Button variant="outline" onClick={handleRerun} disabled={isRerunning} className="gap-1">
+              <RefreshCw size={16} className={isRerunning ? "animate-spin" : ""} />
+              {isRerunning ? "Queueing..." : `Re-run ${rerunnable} failed`}
+            </Button>
+          )}
+          <Button variant="outline" asChild className="gap-1">
+            <a href={`/api/batches/${batch.id}/export`} download>
+              <Download size={16} /> Export CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+      
+      <Card>
+        <CardContent className="p-6">
+          <div className="overflow-x-auto rounded-md border border-neutral-200">
+            <table className="min-w-full divide-y divide-neutral-200 border-collapse">
+              <thead className="bg-gradient-to-r from-neutral-50 to-neutral-100 border-b border-neutral-200">
+                <tr>
+                  {["File", "Course", "Best Fit", "Approved", "Status"].map(heading => (
+                    <th
+                      key={heading}
+                      scope="col"
+                      className="px-6 py-3 text-left text-xs font-semibold text-neutral-600 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-neutral-200">
+                {batch.files.map((file, index) => (
+                  <tr key={file.jobId} className={index % 2 === 0 ? 'bg-white' : 'bg-neutral-50/50'}>
+                    <td className="px-6 py-3 text-sm font-medium text-neutral-900">
+                      {file.analysisId ? (
+                        <Link href={`/syllabus/${file.analysisId}`}>
+                          <a className="text-primary hover:underline">{file.fileName}</a>
+                        </Link>
+                      ) : file.fileName}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-neutral-600">
+                      {file.courseName || <span className="text-neutral-400">—</span>}
+                      {file.courseCode && <span className="text-neutral-500"> ({file.courseCode})</span>}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-neutral-600">{file.bestFit || <span className="text-neutral-400">—</span>}</td>
+                    <td className="px-6 py-3 text-sm text-neutral-600">
+                      {file.approvedRequirements.length > 0 ? file.approvedRequirements.join(", ") : <span className="text-neutral-400">None</span>}
+                    </td>
+                    <td className="px-6 py-3 text-sm">
+                      <BatchStatusBadge status={file.status} />
+                      {file.status === "failed" && file.error && (
+                        <div className="text-xs text-red-700 mt-1">
+                          {file.error}
+                          {!file.canRerun && " (upload no longer available)"}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
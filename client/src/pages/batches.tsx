@@ -0,0 +1,77 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { BatchSummary } from "@shared/schema";
+import { formatDate } from "@/lib/utils";
+import BatchStatusBadge from "@/components/BatchStatusBadge";
+
+export default function Batches() {
+  const { data: batches, isLoading } = useQuery<BatchSummary[]>({
+    queryKey: ['/api/batches'],
+    // Batches still being analyzed change as their files finish
+    refetchInterval: (query) => query.state.data?.some(batch => batch.status === "processing") ? 5000 : false,
+  });
+  
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-serif font-bold text-neutral-900">Batches</h1>
+        <p className="mt-2 text-neutral-600">
+          Syllabi uploaded together with the multiple file uploader. Open a batch to see how each file went,
+          re-run the files that failed or export the results.
+        </p>
+      </div>
+      
+      <Card>
+        <CardContent className="p-6">
+          {isLoading ? (
+            <div className="py-8 text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary mb-2"></div>
+              <p className="text-neutral-600">Loading batches...</p>
+            </div>
+          ) : batches && batches.length > 0 ? (
+            <div className="overflow-x-auto rounded-md border border-neutral-200">
+              <table className="min-w-full divide-y divide-neutral-200 border-collapse">
+                <thead className="bg-gradient-to-r from-neutral-50 to-neutral-100 border-b border-neutral-200">
+                  <tr>
+                    {["Name", "Submitted By", "Uploaded", "Files", "Status"].map(heading => (
+                      <th
+                        key={heading}
+                        scope="col"
+                        className="px-6 py-3 text-left text-xs font-semibold text-neutral-600 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-neutral-200">
+                  {batches.map((batch, index) => (
+                    <tr key={batch.id} className={index % 2 === 0 ? 'bg-white' : 'bg-neutral-50/50'}>
+                      <td className="px-6 py-3 text-sm font-medium">
+                        <Link href={`/batches/${batch.id}`}>
+                          <a className="text-primary hover:underline">{batch.name}</a>
+                        </Link>
+                      </td>
+                      <td className="px-6 py-3 text-sm text-neutral-600">
+                        {batch.submittedBy || <span className="text-neutral-400">Not recorded</span>}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-neutral-600">{formatDate(batch.createdAt)}</td>
+                      <td className="px-6 py-3 text-sm text-neutral-600">
+                        {batch.completedCount} of {batch.fileCount} analyzed
+                        {batch.failedCount > 0 && <span className="text-red-700"> · {batch.failedCount} failed</span>}
+                      </td>
+                      <td className="px-6 py-3 text-sm"><BatchStatusBadge status={batch.status} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-neutral-500">No batches yet. Upload several syllabi at once to create one.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,11 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Analysis, RequirementFit } from "@shared/schema";
-import { formatDate } from "@/lib/utils";
+import { formatAnalysisMethod, formatDate } from "@/lib/utils";
 import { Eye, Award } from "lucide-react";
 import { Link } from "wouter";
 import DeleteAnalysisButton from "@/components/DeleteAnalysisButton";
-import { getRequirementColors } from "@/lib/requirementColors";
+import { useRequirements } from "@/hooks/use-requirements";
 
 export default function Database() {
   const [searchQuery, setSearchQuery] = useState("");
@@ -19,6 +19,9 @@ export default function Database() {
     queryKey: ['/api/analyses'],
     staleTime: 60000 // 1 minute
   });
+
+  // Colors come from the active catalog
+  const { getColors } = useRequirements();
   
   const handleDeleteSuccess = () => {
     // Invalidate and refetch the analyses data
@@ -184,6 +187,18 @@ export default function Database() {
                             {formatDate(new Date(analysis.uploadDate))}
                           </span>
                         </div>
+                        {analysis.analysisMethod && (
+                          <div 
+                            className="text-xs text-neutral-400 mt-1"
+                            title={analysis.promptVersion ? `Prompt version ${analysis.promptVersion}` : undefined}
+                          >
+                            {formatAnalysisMethod(analysis.analysisMethod)}
+                            {analysis.model && ` · ${analysis.model}`}
+                            {analysis.fallbackError && (
+                              <span className="text-amber-600" title={analysis.fallbackError}> · fallback</span>
+                            )}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-5">
                         <div className="flex flex-col gap-1.5">
@@ -191,7 +206,7 @@ export default function Database() {
                           {analysis.bestFit ? (() => {
                             // Use the shared utility function for consistent color coding
                             const bestFit = analysis.bestFit as RequirementFit;
-                            const { bgColorClass, textColorClass } = getRequirementColors(bestFit.name);
+                            const { bgColorClass, textColorClass } = getColors(bestFit.name);
                             
                             return (
                               <span 
@@ -216,7 +231,7 @@ export default function Database() {
                             .filter((fit: RequirementFit) => fit.matchScore >= 70 && fit.name !== (analysis.bestFit as RequirementFit)?.name)
                             .map((fit: RequirementFit, idx: number) => {
                               // Use the shared utility function for consistent color coding
-                              const { bgColorClass, textColorClass } = getRequirementColors(fit.name);
+                              const { bgColorClass, textColorClass } = getColors(fit.name);
                               
                               return (
                                 <span 
@@ -253,7 +268,7 @@ export default function Database() {
                               
                             return otherPotentialFits.length > 0 ? (
                               otherPotentialFits.map((fit: RequirementFit, idx: number) => {
-                                const { bgColorClass, textColorClass } = getRequirementColors(fit.name);
+                                const { bgColorClass, textColorClass } = getColors(fit.name);
                                 
                                 return (
                                   <span 
@@ -14,6 +14,7 @@ export default function Home() {
   const [multipleResults, setMultipleResults] = useState<AnalysisResult[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [activeResultIndex, setActiveResultIndex] = useState<number>(0);
+  const [jobIds, setJobIds] = useState<number[]>([]);
 
   const handleAnalysisComplete = (result: AnalysisResult) => {
     setAnalysisResult(result);
@@ -34,6 +35,7 @@ export default function Home() {
     setIsAnalyzing(true);
     setAnalysisResult(null);
     setMultipleResults([]);
+    setJobIds([]);
   };
 
   // Determine what to show in the results section
@@ -53,11 +55,6 @@ export default function Home() {
           Upload a course syllabus and see which Gen Ed requirements OpenAI
           believes it may fulfill. This is a work in progress!
         </p>
-        <p className="mt-2 text-neutral-600">
-          Please note that this website does not assess syllabi for alignment
-          with the requirements for Freshmen Seminar, Writing 1, Writing 2, or
-          Oral Communication at this time.{" "}
-        </p>
         <div className="mt-4 bg-blue-50 border border-blue-100 rounded-lg p-4">
           <h3 className="text-sm font-medium text-blue-800 flex items-center">
             <span className="material-icons text-blue-600 mr-1 text-sm">
@@ -89,6 +86,7 @@ export default function Home() {
             <TabsContent value="single">
               <FileUploader
                 onAnalysisStart={handleAnalysisStart}
+                onJobsQueued={setJobIds}
                 onAnalysisComplete={handleAnalysisComplete}
               />
             </TabsContent>
@@ -96,6 +94,7 @@ export default function Home() {
             <TabsContent value="multi">
               <MultiFileUploader
                 onAnalysisStart={handleAnalysisStart}
+                onJobsQueued={setJobIds}
                 onAnalysisComplete={handleMultipleAnalysisComplete}
               />
             </TabsContent>
@@ -140,6 +139,7 @@ export default function Home() {
           <AnalysisResults
             result={currentResult}
             isAnalyzing={isAnalyzing}
+            jobIds={jobIds}
             isMultiple={showMultipleResults}
           />
         </div>
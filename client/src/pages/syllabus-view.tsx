@@ -2,16 +2,22 @@ import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Link, useRoute } from "wouter";
 import { getAnalysisById } from "@/lib/api";
-import { Analysis, ApprovedRequirement, RejectedRequirement, RequirementFit } from "@shared/schema";
+import { Analysis, ApprovedRequirement, CatalogVersion, RejectedRequirement, RequirementFit, StageTiming } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ArrowLeft, Check, XCircle, FileText, User, Clock, Award, ExternalLink } from "lucide-react";
-import { formatDate } from "@/lib/utils";
-import { getRequirementColors } from "@/lib/requirementColors";
+import { ArrowLeft, Check, XCircle, FileText, User, Clock, Award, ExternalLink, BookOpen, Cpu, CalendarDays, ClipboardList, ListChecks } from "lucide-react";
+import { formatAnalysisMethod, formatCost, formatCoverage, formatDate, formatStageDuration } from "@/lib/utils";
+import { useRequirements } from "@/hooks/use-requirements";
 import PDFViewer from "@/components/PDFViewer";
+import AssessmentBreakdown from "@/components/AssessmentBreakdown";
+import BulletinChecks from "@/components/BulletinChecks";
+import CourseLearningOutcomes from "@/components/CourseLearningOutcomes";
+import CourseScheduleTable from "@/components/CourseScheduleTable";
+import EvidenceList from "@/components/EvidenceList";
+import UnanalyzedRequirements from "@/components/UnanalyzedRequirements";
 
 export default function SyllabusView() {
   const [match, params] = useRoute<{ id: string }>("/syllabus/:id");
@@ -27,6 +33,15 @@ export default function SyllabusView() {
     enabled: !!id,
   });
 
+  // Load the requirement catalog version this analysis was judged against
+  const { data: catalogVersion } = useQuery<CatalogVersion>({
+    queryKey: [`/api/catalog-versions/${analysis?.catalogVersionId}`],
+    enabled: !!analysis?.catalogVersionId,
+  });
+
+  // Names, colors and SLO text come from the same catalog version
+  const { getColors, getSLOText } = useRequirements(analysis?.catalogVersionId);
+
   useEffect(() => {
     async function loadSyllabusText() {
       if (!id) return;
@@ -104,6 +119,11 @@ export default function SyllabusView() {
   const courseName = analysis.courseName || "Unknown Course";
   const courseCode = analysis.courseCode || "";
   const courseTitle = courseCode ? `${courseCode}: ${courseName}` : courseName;
+  
+  // Bulletin checks and evidence are stored on the approved and rejected requirements
+  const resultFor = (name: string) =>
+    [...(analysis.approvedRequirements as ApprovedRequirement[]), ...(analysis.rejectedRequirements as RejectedRequirement[])]
+      .find(req => req.name === name);
 
   return (
     <div className="container max-w-6xl mx-auto py-8 px-4">
@@ -133,7 +153,7 @@ export default function SyllabusView() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6 bg-gray-50 p-4 rounded-md border border-gray-100">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6 bg-gray-50 p-4 rounded-md border border-gray-100">
               <div className="flex items-start">
                 <FileText size={16} className="mr-2 mt-0.5 text-neutral-500" />
                 <div>
@@ -159,6 +179,64 @@ export default function SyllabusView() {
                   </div>
                 </div>
               </div>
+              
+              <div className="flex items-start">
+                <BookOpen size={16} className="mr-2 mt-0.5 text-neutral-500" />
+                <div>
+                  <div className="font-medium">Requirement Catalog</div>
+                  <div className="text-sm text-neutral-600">
+                    {analysis.catalogVersionId
+                      ? (catalogVersion ? catalogVersion.name : "Loading...")
+                      : "Not recorded"}
+                  </div>
+                </div>
+              </div>
+              
+              {analysis.coverage && (
+                <div className="flex items-start">
+                  <FileText size={16} className="mr-2 mt-0.5 text-neutral-500" />
+                  <div>
+                    <div className="font-medium">Document Coverage</div>
+                    <div className="text-sm text-neutral-600">
+                      {formatCoverage(analysis.coverage)} analyzed ({analysis.coverage.analyzedChunks} of {analysis.coverage.chunkCount} sections)
+                    </div>
+                  </div>
+                </div>
+              )}
+              
+              <div className="flex items-start">
+                <Cpu size={16} className="mr-2 mt-0.5 text-neutral-500" />
+                <div>
+                  <div className="font-medium">Analyzed With</div>
+                  <div className="text-sm text-neutral-600">
+                    {formatAnalysisMethod(analysis.analysisMethod)}
+                    {analysis.model && ` · ${analysis.model}`}
+                    {analysis.cached && " · cached result"}
+                  </div>
+                  {analysis.promptVersion && (
+                    <div className="text-xs text-neutral-500">
+                      Prompt version {analysis.promptVersion} · Temperature {analysis.temperature ?? "server default"}
+                    </div>
+                  )}
+                  {analysis.stageTimings && analysis.stageTimings.length > 0 && (
+                    <div className="text-xs text-neutral-500">
+                      {analysis.stageTimings
+                        .map((timing: StageTiming) => `${timing.stage} ${formatStageDuration(timing)}`)
+                        .join(" · ")}
+                    </div>
+                  )}
+                  {analysis.promptTokens + analysis.completionTokens > 0 && (
+                    <div className="text-xs text-neutral-500">
+                      {(analysis.promptTokens + analysis.completionTokens).toLocaleString()} tokens · est. {formatCost(analysis.estimatedCost)}
+                    </div>
+                  )}
+                  {analysis.fallbackError && (
+                    <div className="text-xs text-amber-700 mt-1">
+                      Fallback used: {analysis.fallbackError}
+                    </div>
+                  )}
+                </div>
+              </div>
             </div>
             
             {isLoadingSyllabus ? (
@@ -214,12 +292,58 @@ export default function SyllabusView() {
           </CardContent>
         </Card>
 
+        {/* Course Learning Outcomes Card */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg font-medium flex items-center">
+              <ListChecks size={18} className="mr-2" />
+              Course Learning Outcomes
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CourseLearningOutcomes
+              analysisId={analysis.id}
+              outcomes={analysis.learningOutcomes}
+              editedAt={analysis.learningOutcomesEditedAt}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Course Schedule Card */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg font-medium flex items-center">
+              <CalendarDays size={18} className="mr-2" />
+              Course Schedule
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CourseScheduleTable schedule={analysis.schedule} />
+          </CardContent>
+        </Card>
+
+        {/* Assessments Card */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg font-medium flex items-center">
+              <ClipboardList size={18} className="mr-2" />
+              Assessments
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AssessmentBreakdown assessments={analysis.assessments} />
+          </CardContent>
+        </Card>
+
         {/* Analysis Results Card */}
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="text-lg font-medium">Analysis Results</CardTitle>
           </CardHeader>
           <CardContent className="space-y-6">
+            {/* Requirements the analysis failed on; retrying refreshes this query */}
+            <UnanalyzedRequirements requirements={analysis.unanalyzedRequirements} analysisId={analysis.id} />
+            
             {/* Best Fit(s) */}
             <div className="mb-4">
               <h3 className="font-medium flex items-center text-blue-700 mb-2">
@@ -247,7 +371,7 @@ export default function SyllabusView() {
                         <div className="flex flex-wrap gap-1">
                           {analysis.bestFit.matchingSLOs?.length ? (
                             analysis.bestFit.matchingSLOs.map((slo: number) => (
-                              <Badge key={slo} variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">
+                              <Badge key={slo} title={getSLOText(analysis.bestFit.name, slo)} variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">
                                 SLO {slo}
                               </Badge>
                             ))
@@ -262,7 +386,7 @@ export default function SyllabusView() {
                         <div className="flex flex-wrap gap-1">
                           {analysis.bestFit.missingSLOs?.length ? (
                             analysis.bestFit.missingSLOs.map((slo: number) => (
-                              <Badge key={slo} variant="outline" className="bg-gray-100 text-gray-800 border-gray-200">
+                              <Badge key={slo} title={getSLOText(analysis.bestFit.name, slo)} variant="outline" className="bg-gray-100 text-gray-800 border-gray-200">
                                 SLO {slo}
                               </Badge>
                             ))
@@ -272,6 +396,13 @@ export default function SyllabusView() {
                         </div>
                       </div>
                     </div>
+                    <BulletinChecks checks={resultFor(analysis.bestFit.name)?.bulletinChecks} />
+                    <EvidenceList
+                      sloEvidence={resultFor(analysis.bestFit.name)?.sloEvidence}
+                      elementEvidence={resultFor(analysis.bestFit.name)?.elementEvidence}
+                      getSLOText={(slo) => getSLOText(analysis.bestFit.name, slo)}
+                      sections={analysis.sections}
+                    />
                   </div>
                   
                   {/* Secondary Best Fits (if any) */}
@@ -294,7 +425,7 @@ export default function SyllabusView() {
                           <div className="flex flex-wrap gap-1">
                             {fit.matchingSLOs?.length ? (
                               fit.matchingSLOs.map((slo: number) => (
-                                <Badge key={slo} variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">
+                                <Badge key={slo} title={getSLOText(fit.name, slo)} variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">
                                   SLO {slo}
                                 </Badge>
                               ))
@@ -309,7 +440,7 @@ export default function SyllabusView() {
                           <div className="flex flex-wrap gap-1">
                             {fit.missingSLOs?.length ? (
                               fit.missingSLOs.map((slo: number) => (
-                                <Badge key={slo} variant="outline" className="bg-gray-100 text-gray-800 border-gray-200">
+                                <Badge key={slo} title={getSLOText(fit.name, slo)} variant="outline" className="bg-gray-100 text-gray-800 border-gray-200">
                                   SLO {slo}
                                 </Badge>
                               ))
@@ -319,6 +450,13 @@ export default function SyllabusView() {
                           </div>
                         </div>
                       </div>
+                      <BulletinChecks checks={resultFor(fit.name)?.bulletinChecks} />
+                      <EvidenceList
+                        sloEvidence={resultFor(fit.name)?.sloEvidence}
+                        elementEvidence={resultFor(fit.name)?.elementEvidence}
+                        getSLOText={(slo) => getSLOText(fit.name, slo)}
+                        sections={analysis.sections}
+                      />
                     </div>
                   ))}
                 </div>
@@ -336,7 +474,7 @@ export default function SyllabusView() {
               {analysis.potentialFits && analysis.potentialFits.filter((fit: RequirementFit) => fit.matchScore < 70).length > 0 ? (
                 <ul className="space-y-2">
                   {analysis.potentialFits.filter((fit: RequirementFit) => fit.matchScore < 70).map((fit: RequirementFit, index: number) => {
-                    const { bgColorClass, textColorClass } = getRequirementColors(fit.name);
+                    const { bgColorClass, textColorClass } = getColors(fit.name);
                     // Create lighter/darker variants for the border and background
                     const bgLighterClass = bgColorClass.replace('100', '50');
                     const borderClass = bgColorClass.replace('bg', 'border');
@@ -357,7 +495,7 @@ export default function SyllabusView() {
                             <div className="flex flex-wrap gap-1">
                               {fit.matchingSLOs?.length ? (
                                 fit.matchingSLOs.map((slo: number) => (
-                                  <Badge key={slo} variant="outline" className={`${bgColorClass} ${textColorClass} border-${borderClass}`}>
+                                  <Badge key={slo} title={getSLOText(fit.name, slo)} variant="outline" className={`${bgColorClass} ${textColorClass} border-${borderClass}`}>
                                     SLO {slo}
                                   </Badge>
                                 ))
@@ -371,7 +509,7 @@ export default function SyllabusView() {
                             <div className="flex flex-wrap gap-1">
                               {fit.missingSLOs?.length ? (
                                 fit.missingSLOs.map((slo: number) => (
-                                  <Badge key={slo} variant="outline" className="bg-gray-100 text-gray-800 border-gray-200">
+                                  <Badge key={slo} title={getSLOText(fit.name, slo)} variant="outline" className="bg-gray-100 text-gray-800 border-gray-200">
                                     SLO {slo}
                                   </Badge>
                                 ))
@@ -381,6 +519,13 @@ export default function SyllabusView() {
                             </div>
                           </div>
                         </div>
+                        <BulletinChecks checks={resultFor(fit.name)?.bulletinChecks} />
+                        <EvidenceList
+                          sloEvidence={resultFor(fit.name)?.sloEvidence}
+                          elementEvidence={resultFor(fit.name)?.elementEvidence}
+                          getSLOText={(slo) => getSLOText(fit.name, slo)}
+                          sections={analysis.sections}
+                        />
                       </li>
                     );
                   })}
@@ -413,11 +558,18 @@ export default function SyllabusView() {
                       </div>
                       <div className="flex flex-wrap gap-1 mt-2">
                         {req.missingSLOs.map((slo: number) => (
-                          <Badge key={slo} variant="outline" className="bg-red-100 text-red-800 border-red-200">
+                          <Badge key={slo} title={getSLOText(req.name, slo)} variant="outline" className="bg-red-100 text-red-800 border-red-200">
                             SLO {slo}
                           </Badge>
                         ))}
                       </div>
+                      <BulletinChecks checks={req.bulletinChecks} />
+                      <EvidenceList
+                        sloEvidence={req.sloEvidence}
+                        elementEvidence={req.elementEvidence}
+                        getSLOText={(slo) => getSLOText(req.name, slo)}
+                        sections={analysis.sections}
+                      />
                     </li>
                   ))}
                 </ul>
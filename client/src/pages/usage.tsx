@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { UsageReport, UsageSummary } from "@shared/schema";
+import { formatCost } from "@/lib/utils";
+
+interface UsageTableProps {
+  title: string;
+  keyLabel: string;
+  emptyKey: string;       // Shown for analyses without a recorded key
+  rows: UsageSummary[];
+}
+
+function UsageTable({ title, keyLabel, emptyKey, rows }: UsageTableProps) {
+  return (
+    <Card className="mb-8">
+      <CardContent className="p-6">
+        <h2 className="text-lg font-medium text-neutral-900 mb-4">{title}</h2>
+        {rows.length > 0 ? (
+          <div className="overflow-x-auto rounded-md border border-neutral-200">
+            <table className="min-w-full divide-y divide-neutral-200 border-collapse">
+              <thead className="bg-gradient-to-r from-neutral-50 to-neutral-100 border-b border-neutral-200">
+                <tr>
+                  {[keyLabel, "Analyses", "Prompt Tokens", "Completion Tokens", "Estimated Cost"].map((heading, index) => (
+                    <th
+                      key={heading}
+                      scope="col"
+                      className={`px-6 py-3 text-xs font-semibold text-neutral-600 uppercase tracking-wider ${index === 0 ? 'text-left' : 'text-right'}`}
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-neutral-200">
+                {rows.map((row, index) => (
+                  <tr key={row.key ?? ""} className={index % 2 === 0 ? 'bg-white' : 'bg-neutral-50/50'}>
+                    <td className="px-6 py-3 text-sm text-neutral-900">
+                      {row.key ?? <span className="text-neutral-400">{emptyKey}</span>}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-neutral-600 text-right">{row.analyses}</td>
+                    <td className="px-6 py-3 text-sm text-neutral-600 text-right">{row.promptTokens.toLocaleString()}</td>
+                    <td className="px-6 py-3 text-sm text-neutral-600 text-right">{row.completionTokens.toLocaleString()}</td>
+                    <td className="px-6 py-3 text-sm font-medium text-neutral-900 text-right">{formatCost(row.estimatedCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-neutral-500">No analyses in this period.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Usage() {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  
+  const params = new URLSearchParams();
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  const query = params.toString();
+  
+  const { data: report, isLoading } = useQuery<UsageReport>({
+    queryKey: [`/api/admin/usage${query ? `?${query}` : ""}`],
+    staleTime: 60000 // 1 minute
+  });
+  
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-serif font-bold text-neutral-900">AI Usage</h1>
+        <p className="mt-2 text-neutral-600">
+          Tokens used and estimated cost of AI analyses. Costs are estimated from the configured price table.
+        </p>
+      </div>
+      
+      <Card className="mb-8">
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row gap-4 md:items-end">
+            <div>
+              <label htmlFor="usageFrom" className="block text-sm font-medium text-neutral-700 mb-1">From</label>
+              <Input id="usageFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div>
+              <label htmlFor="usageTo" className="block text-sm font-medium text-neutral-700 mb-1">To</label>
+              <Input id="usageTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            {report && (
+              <div className="md:ml-auto text-right">
+                <div className="text-2xl font-semibold text-neutral-900">{formatCost(report.total.estimatedCost)}</div>
+                <div className="text-sm text-neutral-500">
+                  {report.total.analyses} analyses · {(report.total.promptTokens + report.total.completionTokens).toLocaleString()} tokens
+                </div>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+      
+      {isLoading || !report ? (
+        <div className="py-8 text-center">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary mb-2"></div>
+          <p className="text-neutral-600">Loading usage report...</p>
+        </div>
+      ) : (
+        <>
+          <UsageTable title="By Day" keyLabel="Day" emptyKey="Unknown" rows={report.byDay} />
+          <UsageTable title="By Submitter" keyLabel="Submitted By" emptyKey="Not recorded" rows={report.byUser} />
+          <UsageTable title="By Batch" keyLabel="Batch" emptyKey="Single uploads" rows={report.byBatch} />
+        </>
+      )}
+    </div>
+  );
+}
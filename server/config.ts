@@ -4,9 +4,10 @@ import * as dotenv from "dotenv";
 dotenv.config();
 
 // Check required environment variables
+// A self-hosted OpenAI-compatible server usually does not need an API key
 const requiredEnvVars = [
   "DATABASE_URL",
-  "OPENAI_API_KEY"
+  ...(process.env.OPENAI_BASE_URL ? [] : ["OPENAI_API_KEY"])
 ];
 
 const missingEnvVars = requiredEnvVars.filter(
@@ -23,6 +24,49 @@ if (missingEnvVars.length > 0) {
   }
 }
 
+/**
+ * Parse extra HTTP headers for the OpenAI-compatible server from a JSON object string
+ * @param value The OPENAI_HEADERS environment variable, e.g. {"X-Api-Token": "..."}
+ * @returns Record<string, string> The headers, or none if the value is missing or invalid
+ */
+function parseHeaders(value: string | undefined): Record<string, string> {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.warn("OPENAI_HEADERS is not a valid JSON object and will be ignored.");
+    return {};
+  }
+}
+
+// Prices in US dollars per million tokens, used to estimate the cost of each analysis
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+};
+
+/**
+ * Parse the price table from a JSON object string, on top of the default prices
+ * @param value The OPENAI_PRICES environment variable, e.g. {"my-model": {"input": 1, "output": 2}}
+ * @returns Record<string, ModelPrice> Prices keyed by model
+ */
+function parsePrices(value: string | undefined): Record<string, ModelPrice> {
+  if (!value) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(value) };
+  } catch (error) {
+    console.warn("OPENAI_PRICES is not a valid JSON object and will be ignored.");
+    return DEFAULT_PRICES;
+  }
+}
+
 // Export config with default values
 export const config = {
   database: {
@@ -30,7 +74,48 @@ export const config = {
   },
   openai: {
     apiKey: process.env.OPENAI_API_KEY || "",
-    model: "gpt-4o" // the newest OpenAI model as of May 13, 2024
+    baseURL: process.env.OPENAI_BASE_URL || "",  // e.g. http://localhost:8000/v1 for a local vLLM or llama.cpp server
+    model: process.env.OPENAI_MODEL || "gpt-4o", // the newest OpenAI model as of May 13, 2024
+    temperature: process.env.OPENAI_TEMPERATURE ? parseFloat(process.env.OPENAI_TEMPERATURE) : undefined,  // Server default when unset
+    // Per-stage model overrides; the default model is used when empty
+    stageModels: {
+      segmentation: process.env.OPENAI_MODEL_SEGMENTATION || "",
+      courseInfo: process.env.OPENAI_MODEL_COURSE_INFO || "",
+      learningOutcomes: process.env.OPENAI_MODEL_LEARNING_OUTCOMES || "",
+      requirements: process.env.OPENAI_MODEL_REQUIREMENTS || "",
+      fits: process.env.OPENAI_MODEL_FITS || ""
+    },
+    headers: parseHeaders(process.env.OPENAI_HEADERS),
+    // "response_format" uses JSON mode; "prompt" asks for JSON in the prompt for servers without JSON mode
+    jsonMode: process.env.OPENAI_JSON_MODE === "prompt" ? "prompt" : "response_format",
+    // Invalid JSON replies are repaired and failed requests retried, up to this many attempts each
+    maxAttempts: parseInt(process.env.OPENAI_MAX_ATTEMPTS || "3", 10),
+    retryDelayMs: parseInt(process.env.OPENAI_RETRY_DELAY_MS || "1000", 10),  // Doubled after each failed request
+    // Every request goes through a shared scheduler; a per-minute budget of 0 is unlimited
+    concurrency: parseInt(process.env.OPENAI_CONCURRENCY || "4", 10),  // Requests in flight at once
+    requestsPerMinute: parseInt(process.env.OPENAI_REQUESTS_PER_MINUTE || "500", 10),
+    tokensPerMinute: parseInt(process.env.OPENAI_TOKENS_PER_MINUTE || "30000", 10),
+    prices: parsePrices(process.env.OPENAI_PRICES),  // Models without a price are recorded at no cost
+    // Long syllabi are analyzed in section-aligned chunks and the findings merged
+    chunkSize: parseInt(process.env.OPENAI_CHUNK_SIZE || "12000", 10),  // Maximum characters per chunk
+    maxChunks: parseInt(process.env.OPENAI_MAX_CHUNKS || "6", 10)  // Chunks beyond this are not analyzed
+  },
+  segmentation: {
+    useAI: process.env.SEGMENTATION_USE_AI === "true"  // Ask the model to label the candidate headings instead of matching names
+  },
+  analyzer: {
+    primary: process.env.ANALYZER_PRIMARY || "openai",  // "openai", "keyword" or "fixture"
+    fallback: process.env.ANALYZER_FALLBACK ?? "keyword",  // Set to an empty string to disable the fallback
+    fixtureDir: process.env.ANALYZER_FIXTURE_DIR || "fixtures/analyses",  // Recorded analyses replayed by the fixture analyzer
+    recordFixtures: process.env.ANALYZER_RECORD_FIXTURES === "true"  // Record every primary analysis for later replay
+  },
+  jobs: {
+    workerEnabled: process.env.JOB_WORKER_ENABLED !== "false",  // Set to "false" on instances that only accept uploads
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || "2", 10),  // Jobs one worker runs at once
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || "1000", 10),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || "3", 10),
+    retryDelayMs: parseInt(process.env.JOB_RETRY_DELAY_MS || "30000", 10),  // Doubled after each failed attempt
+    lockTimeoutMs: parseInt(process.env.JOB_LOCK_TIMEOUT_MS || "900000", 10)  // Running jobs older than this are picked up again
   },
   server: {
     port: parseInt(process.env.PORT || "5000", 10),
@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { config } from "./config"; // Import centralized configuration
+import { startJobWorker } from "./jobs";
 
 const app = express();
 app.use(express.json());
@@ -68,4 +69,7 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port} in ${config.server.env} mode`);
   });
+
+  // Analyses run in the background, off the request that queued them
+  startJobWorker();
 })();
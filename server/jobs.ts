@@ -0,0 +1,453 @@
+import path from "path";
+import fs from "fs";
+import { Analysis, AnalysisJob, AnalysisJobPayload, InsertAnalysisJob, AnalysisJobStatus, AnalysisProgressUpdate, AnalysisResult, BatchFile, BatchStatus, StageUsage, InsertAnalysis, insertAnalysisSchema } from "@shared/schema";
+import { config } from "./config";
+import { storage } from "./storage";
+import { extractDocument } from "./utils/documentParser";
+import { runAnalysis } from "./utils/analyzerRegistry";
+import { processPDFForWeb, isPDF } from "./utils/pdfOptimizer";
+import { segmentSyllabus } from "./utils/sectionSegmenter";
+import { parseSchedule } from "./utils/scheduleParser";
+import { parseAssessments } from "./utils/assessmentParser";
+import { totalUsage, usageRecorder } from "./utils/usage";
+import { publishProgress } from "./progress";
+
+// Steps of an upload's analysis, reported while a job runs
+export type UploadStage = "extracting" | "analyzing" | "saving";
+
+// An analysis ready to be stored, and how to describe it once it has been
+export interface PreparedAnalysis {
+  analysis: InsertAnalysis;
+  toResult: (saved: Analysis) => AnalysisResult;
+}
+
+let activeJobs = 0;     // Jobs this worker is running
+let claiming = false;   // A poll is claiming jobs
+
+/**
+ * Queue an uploaded syllabus for analysis
+ * @param payload The uploaded file and how to analyze it
+ * @returns Promise<AnalysisJob> The queued job
+ */
+export async function enqueueAnalysisJob(payload: AnalysisJobPayload): Promise<AnalysisJob> {
+  const job = await storage.createJob({ payload, batchId: payload.batchId, maxAttempts: config.jobs.maxAttempts });
+
+  // Start right away if this worker has a free slot
+  if (config.jobs.workerEnabled) {
+    void claimJobs();
+  }
+  return job;
+}
+
+/**
+ * Describe a job for the client
+ * @param job The stored job
+ * @returns AnalysisJobStatus The job's progress, without internal details such as the upload path
+ */
+export function toJobStatus(job: AnalysisJob): AnalysisJobStatus {
+  return {
+    id: job.id,
+    status: job.status,
+    stage: job.stage,
+    fileName: job.payload.fileName,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.error,
+    analysisId: job.analysisId,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+  };
+}
+
+/**
+ * Describe a batch file's job for the batch page
+ * @param job The stored job
+ * @returns BatchFile The file's outcome
+ */
+export function toBatchFile(job: AnalysisJob): BatchFile {
+  return {
+    jobId: job.id,
+    fileName: job.payload.fileName,
+    status: job.status,
+    stage: job.stage,
+    error: job.error,
+    analysisId: job.analysisId,
+    courseName: job.result?.courseName || null,
+    courseCode: job.result?.courseCode || null,
+    bestFit: job.result?.bestFit?.name || null,
+    approvedRequirements: (job.result?.approvedRequirements || []).map(req => req.name),
+    canRerun: job.status === "failed" && fs.existsSync(job.payload.filePath),
+  };
+}
+
+/**
+ * Queue the failed files of a batch for another round of attempts
+ * @param batchId The batch
+ * @returns Promise<number> Number of files queued; files whose upload is gone are skipped
+ */
+export async function rerunFailedBatchFiles(batchId: string): Promise<number> {
+  const failed = (await storage.getBatchJobs(batchId))
+    .filter(job => job.status === "failed" && fs.existsSync(job.payload.filePath));
+
+  for (const job of failed) {
+    await storage.updateJob(job.id, {
+      status: "queued",
+      stage: null,
+      attempts: 0,
+      runAfter: new Date(),
+      lockedAt: null,
+      completedAt: null,
+    });
+  }
+
+  if (failed.length > 0) {
+    await storage.updateBatch(batchId, { status: "processing", completedAt: null });
+    if (config.jobs.workerEnabled) {
+      void claimJobs();
+    }
+  }
+  return failed.length;
+}
+
+/**
+ * Start polling the queue for analysis jobs
+ */
+export function startJobWorker(): void {
+  if (!config.jobs.workerEnabled) {
+    console.log("Job worker disabled; analyses will be run by another instance");
+    return;
+  }
+
+  console.log(`Job worker started with ${config.jobs.concurrency} slots`);
+  setInterval(() => void claimJobs(), config.jobs.pollIntervalMs);
+  void claimJobs();
+}
+
+/**
+ * Claim queued jobs until every slot is busy or the queue is empty
+ */
+async function claimJobs(): Promise<void> {
+  if (claiming) return;
+  claiming = true;
+
+  try {
+    while (activeJobs < config.jobs.concurrency) {
+      const job = await storage.claimNextJob(config.jobs.lockTimeoutMs);
+      if (!job) break;
+
+      activeJobs++;
+      runJob(job).finally(() => {
+        activeJobs--;
+        void claimJobs();
+      });
+    }
+  } catch (error) {
+    console.error("Error claiming analysis jobs:", error);
+  } finally {
+    claiming = false;
+  }
+}
+
+/**
+ * Run a claimed job, scheduling a retry with backoff if it fails
+ * @param job The claimed job
+ */
+async function runJob(job: AnalysisJob): Promise<void> {
+  console.log(`Running analysis job ${job.id} for ${job.payload.fileName} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  // Renew the lock while the job runs, so a long analysis is not taken over by another worker;
+  // renewals run one at a time because each one matches the lock time of the last
+  let lockedAt = job.lockedAt ?? new Date();
+  let lockLost = false;
+  let renewal = Promise.resolve();
+  const renewLock = (updates: Partial<InsertAnalysisJob> = {}) => renewal = renewal.then(async () => {
+    if (lockLost) return;
+    const now = new Date();
+    try {
+      const renewed = await storage.updateClaimedJob(job.id, lockedAt, { ...updates, lockedAt: now });
+      if (renewed) {
+        lockedAt = now;
+      } else {
+        lockLost = true;
+        console.warn(`Analysis job ${job.id} was taken over by another worker`);
+      }
+    } catch (error) {
+      // The next renewal tries again before the lock times out
+      console.error(`Error renewing the lock of analysis job ${job.id}:`, error);
+    }
+  });
+  const heartbeat = setInterval(renewLock, Math.max(1000, config.jobs.lockTimeoutMs / 3));
+
+  // Push each step to the browsers following the job
+  const report = (update: AnalysisProgressUpdate) => publishProgress({
+    ...update,
+    jobId: job.id,
+    fileName: job.payload.fileName,
+    timestamp: new Date().toISOString(),
+  });
+
+  try {
+    const { analysis, toResult } = await analyzeUpload(job.payload, async stage => {
+      // Stop before saving a second analysis of a job another worker now runs
+      await renewLock({ stage });
+      if (lockLost) throw new Error(`Analysis job ${job.id} was taken over by another worker`);
+    }, report);
+
+    // The analysis is stored together with the job's completion, so a failed write leaves neither
+    await renewal;
+    const saved = await storage.completeClaimedJob(job.id, lockedAt, analysis, savedAnalysis => {
+      // The text is kept on the analysis only, so the job row stays small
+      const { content, sections, ...summary } = toResult(savedAnalysis);
+      return {
+        status: "completed",
+        stage: null,
+        result: summary,
+        error: null,
+        completedAt: new Date(),
+      };
+    });
+    if (!saved) {
+      // The other worker's run records the outcome
+      return;
+    }
+    report({ step: "saving", status: "completed", message: "Analysis saved" });
+    removeUpload(job.payload.filePath);
+    report({ step: "done", status: "completed", message: "Analysis complete" });
+  } catch (error) {
+    // The worker that took the job over records its outcome
+    await renewal;
+    if (lockLost) return;
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Analysis job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+
+    try {
+      if (job.attempts < job.maxAttempts) {
+        const retryDelayMs = config.jobs.retryDelayMs * 2 ** (job.attempts - 1);
+        await storage.updateClaimedJob(job.id, lockedAt, {
+          status: "queued",
+          stage: null,
+          error: message,
+          runAfter: new Date(Date.now() + retryDelayMs),
+          lockedAt: null,
+        });
+        report({ step: "retry", status: "failed", message: `${message}; retrying in ${Math.round(retryDelayMs / 1000)}s` });
+      } else {
+        await storage.updateClaimedJob(job.id, lockedAt, { status: "failed", stage: null, error: message, completedAt: new Date() });
+        // Failed batch files keep their upload so they can be re-run from the batch page
+        if (!job.batchId) {
+          removeUpload(job.payload.filePath);
+        }
+        report({ step: "done", status: "failed", message });
+      }
+    } catch (updateError) {
+      // The lock times out and the job is picked up again
+      console.error(`Error updating analysis job ${job.id}:`, updateError);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  if (job.batchId) {
+    await updateBatchStatus(job.batchId).catch(error => {
+      console.error(`Error updating batch ${job.batchId}:`, error);
+    });
+  }
+}
+
+/**
+ * Work out a batch's status from the outcome of its files
+ * @param batchId The batch
+ */
+async function updateBatchStatus(batchId: string): Promise<void> {
+  const jobs = await storage.getBatchJobs(batchId);
+  if (jobs.some(job => job.status === "queued" || job.status === "running")) return;
+
+  const completed = jobs.filter(job => job.status === "completed").length;
+  const status: BatchStatus = completed === jobs.length ? "completed" : completed === 0 ? "failed" : "partial";
+  await storage.updateBatch(batchId, { status, completedAt: new Date() });
+}
+
+/**
+ * Delete the temporary upload of a finished job
+ * @param filePath Path of the temporary upload
+ */
+function removeUpload(filePath: string): void {
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+}
+
+/**
+ * Extract and analyze an uploaded syllabus, leaving the analysis for the caller to store
+ * @param payload The uploaded file and how to analyze it
+ * @param onStage Called as each step starts
+ * @param onProgress Receives each step, including the analyzer's, as it starts and finishes
+ * @returns Promise<PreparedAnalysis> The analysis to store and how to describe it once stored
+ */
+export async function analyzeUpload(
+  payload: AnalysisJobPayload,
+  onStage: (stage: UploadStage) => Promise<void> | void = () => {},
+  onProgress: (update: AnalysisProgressUpdate) => void = () => {}
+): Promise<PreparedAnalysis> {
+  const fileType = path.extname(payload.fileName).toLowerCase();
+
+  const catalogVersion = await storage.getCatalogVersionById(payload.catalogVersionId);
+  if (!catalogVersion) {
+    throw new Error("Requested catalog version no longer exists");
+  }
+
+  // Extract text from the uploaded document
+  await onStage("extracting");
+  onProgress({ step: "extraction", status: "started", message: "Extracting text from the document" });
+  const { text, headings } = await extractDocument(payload.filePath, fileType);
+  onProgress({ step: "extraction", status: "completed", message: `Extracted ${text.length.toLocaleString()} characters` });
+
+  // Find the standard sections so the analyzers can target them
+  onProgress({ step: "segmentation", status: "started", message: "Finding the syllabus sections" });
+  const segmentationUsage: StageUsage[] = [];
+  const sections = await segmentSyllabus(text, headings, usageRecorder(segmentationUsage, "segmentation"));
+  onProgress({ step: "segmentation", status: "completed", message: `Found ${sections.length} sections` });
+
+  // Read the schedule so content proportions can be measured from the sessions
+  onProgress({ step: "schedule", status: "started", message: "Reading the course schedule" });
+  const schedule = parseSchedule(text, sections);
+  onProgress({
+    step: "schedule",
+    status: "completed",
+    message: schedule ? `Found ${schedule.rows.length} scheduled sessions` : "No schedule found"
+  });
+
+  // Read the graded work so assessment rules can be checked against it
+  onProgress({ step: "assessments", status: "started", message: "Reading the assignments and grading" });
+  const assessments = parseAssessments(text, sections);
+  onProgress({ step: "assessments", status: "completed", message: `Found ${assessments.length} assessments` });
+
+  // A user-supplied course code is used for the rules and bulletin checks
+  const analyzerOptions = {
+    catalogVersionId: catalogVersion.id,
+    courseCode: payload.courseCode?.trim() || undefined,
+    sections,
+    schedule,
+    assessments,
+    onProgress,
+  };
+
+  // Run the configured analyzer, falling back if it fails; force bypasses the cache
+  await onStage("analyzing");
+  const { result: analysisResult, analyzer, fallbackError, cached } = await runAnalysis(text, analyzerOptions, { force: payload.force });
+  const analysisMethod = analyzer.method;
+
+  // Always prioritize user-provided course information, even if it's empty
+  const courseName = payload.courseName ?? (analysisResult.courseName || "Unnamed Course");
+  const courseCode = payload.courseCode ?? (analysisResult.courseCode || "");
+
+  // Segmentation is paid for even when the verdict comes from the cache
+  const usage = [...segmentationUsage, ...(analysisResult.usage || [])];
+
+  // Format the data for storage
+  await onStage("saving");
+  onProgress({ step: "saving", status: "started", message: "Saving the analysis" });
+  const analysisData = {
+    courseName,
+    courseCode,
+    fileName: payload.fileName,
+    fileSize: payload.fileSize,
+    fileType,
+    approvedRequirements: analysisResult.approvedRequirements,
+    rejectedRequirements: analysisResult.rejectedRequirements,
+    bestFit: analysisResult.bestFit,
+    potentialFits: analysisResult.potentialFits,
+    poorFits: analysisResult.poorFits,
+    content: text, // Store the original extracted text
+    documentPath: "", // Will be set after file is copied
+    catalogVersionId: catalogVersion.id,
+    thresholds: analysisResult.thresholds,
+    coverage: analysisResult.coverage,
+    unanalyzedRequirements: analysisResult.unanalyzedRequirements,
+    sections,
+    schedule,
+    assessments,
+    learningOutcomes: analysisResult.learningOutcomes,
+    // Provenance of the verdict
+    analyzer: analyzer.name,
+    analysisMethod,
+    model: analysisResult.model,
+    temperature: analysisResult.temperature,
+    promptVersion: analysisResult.promptVersion,
+    fallbackError: fallbackError?.message,
+    stageTimings: analysisResult.stageTimings,
+    cached,
+    // Spend on the AI service
+    usage,
+    ...totalUsage(usage),
+    submittedBy: payload.submittedBy,
+    batchId: payload.batchId
+  };
+
+  // Validate the data before storing
+  const parsedData = insertAnalysisSchema.parse(analysisData);
+
+  // Keep a copy of the document for the syllabus view
+  const documentPath = storeDocument(payload.filePath, payload.fileName);
+  parsedData.documentPath = documentPath;
+
+  const toResult = (savedAnalysis: Analysis): AnalysisResult => ({
+    ...analysisResult,
+    id: savedAnalysis.id,
+    courseName,
+    courseCode,
+    approvedRequirements: analysisResult.approvedRequirements || [],
+    rejectedRequirements: analysisResult.rejectedRequirements || [],
+    fileName: payload.fileName,
+    fileSize: payload.fileSize,
+    fileType,
+    uploadDate: savedAnalysis.uploadDate,
+    analysisMethod,
+    content: text, // Include the extracted text
+    documentPath,
+    catalogVersionId: catalogVersion.id,
+    catalogVersionName: catalogVersion.name,
+    sections,
+    schedule,
+    assessments,
+    // Provenance of the verdict
+    analyzer: analyzer.name,
+    fallbackError: fallbackError?.message,
+    cached,
+    usage,
+    ...totalUsage(usage),
+    submittedBy: payload.submittedBy,
+    batchId: payload.batchId
+  });
+
+  return { analysis: parsedData, toResult };
+}
+
+/**
+ * Copy an uploaded document to the documents directory, optimizing PDFs for the web
+ * @param filePath Path of the temporary upload
+ * @param fileName Original file name
+ * @returns string The stored filename
+ */
+function storeDocument(filePath: string, fileName: string): string {
+  // Create a unique stored filename for the document
+  const documentsDir = path.join(import.meta.dirname, "../uploads/documents");
+  if (!fs.existsSync(documentsDir)) {
+    fs.mkdirSync(documentsDir, { recursive: true });
+  }
+
+  // Generate document ID and path for storage
+  const documentId = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  const storedFilename = `document-${documentId}${path.extname(fileName)}`;
+
+  // Process PDF files for web optimization if applicable
+  if (isPDF(filePath)) {
+    console.log(`Processing PDF for web optimization: ${fileName}`);
+    return processPDFForWeb(filePath, documentsDir, storedFilename);
+  }
+
+  // For non-PDF files, just copy as-is
+  fs.copyFileSync(filePath, path.join(documentsDir, storedFilename));
+  return storedFilename;
+}
@@ -0,0 +1,72 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { AnalysisProgressEvent } from "@shared/schema";
+
+// Browsers connect here with ?jobs=1,2,3 to follow those analysis jobs
+const PROGRESS_PATH = "/ws/progress";
+
+// How long a job's events are kept after its last one, for browsers that connect late;
+// jobs whose worker stopped never publish "done", so the time counts from any event
+const HISTORY_RETENTION_MS = 5 * 60 * 1000;
+
+const subscriptions = new Map<WebSocket, Set<number>>();
+const history = new Map<number, AnalysisProgressEvent[]>();
+const historyExpiry = new Map<number, NodeJS.Timeout>();
+
+/**
+ * Send a progress event to every browser following the job.
+ * Events only reach browsers connected to the instance that runs the job.
+ * @param event The progress event
+ */
+export function publishProgress(event: AnalysisProgressEvent): void {
+  const events = history.get(event.jobId) || [];
+  events.push(event);
+  history.set(event.jobId, events);
+
+  clearTimeout(historyExpiry.get(event.jobId));
+  historyExpiry.set(event.jobId, setTimeout(() => {
+    history.delete(event.jobId);
+    historyExpiry.delete(event.jobId);
+  }, HISTORY_RETENTION_MS).unref());
+
+  const message = JSON.stringify(event);
+  subscriptions.forEach((jobIds, socket) => {
+    if (jobIds.has(event.jobId) && socket.readyState === WebSocket.OPEN) {
+      socket.send(message);
+    }
+  });
+}
+
+/**
+ * Accept progress WebSocket connections on the HTTP server
+ * @param server The HTTP server the API is served from
+ */
+export function attachProgressServer(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    // Other upgrades, such as Vite's hot reload, are handled elsewhere
+    const url = new URL(req.url || "", "http://localhost");
+    if (url.pathname !== PROGRESS_PATH) return;
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      const jobIds = new Set(
+        (url.searchParams.get("jobs") || "")
+          .split(",")
+          .map(id => parseInt(id))
+          .filter(id => !isNaN(id))
+      );
+      subscriptions.set(ws, jobIds);
+      ws.on("close", () => subscriptions.delete(ws));
+      ws.on("error", error => {
+        console.error("Progress WebSocket error:", error);
+        subscriptions.delete(ws);
+      });
+
+      // Catch up on what happened before the browser connected
+      jobIds.forEach(jobId => {
+        (history.get(jobId) || []).forEach(event => ws.send(JSON.stringify(event)));
+      });
+    });
+  });
+}
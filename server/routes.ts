@@ -1,14 +1,21 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertAnalysisSchema } from "@shared/schema";
+import { insertRequirementSchema, insertCatalogVersionSchema, publishableRequirementSchema, updateLearningOutcomesSchema, type ApprovedRequirement, type CatalogVersion, type RejectedRequirement, type UnanalyzedRequirement } from "@shared/schema";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { extractTextFromDocument } from "./utils/documentParser";
-import { analyzeGenEdRequirements, genEdRequirements } from "./utils/genEdAnalyzer";
-import { analyzeWithOpenAI } from "./utils/openaiAnalyzer";
-import { processPDFForWeb, isPDF } from "./utils/pdfOptimizer";
+import crypto from "crypto";
+import { reanalyzeRequirements } from "./utils/analyzerRegistry";
+import { defaultGenEdRequirements, defaultCatalogVersionName } from "./utils/defaultRequirements";
+import { importRequirementsFromDocument } from "./utils/requirementImporter";
+import { diffCatalogs } from "./utils/catalogDiff";
+import { totalUsage } from "./utils/usage";
+import { batchToCsv } from "./utils/batchExport";
+import { enqueueAnalysisJob, rerunFailedBatchFiles, toBatchFile, toJobStatus } from "./jobs";
+import { attachProgressServer } from "./progress";
 
 // Set up multer for file uploads
 const upload = multer({
@@ -39,7 +46,41 @@ const upload = multer({
   }
 });
 
+// The official GE SLO document used when an import request does not upload one
+const defaultRequirementsDocument = path.join(import.meta.dirname, "../attached_assets/GE_SLOs_Requirements.pdf");
+
+/**
+ * Resolve the catalog version an analysis should be judged against
+ * @param requestedId Catalog version ID supplied by the client, if any
+ * @returns The requested published version, the active version if none was requested, or undefined if invalid
+ */
+async function resolveCatalogVersion(requestedId: unknown): Promise<CatalogVersion | undefined> {
+  if (requestedId === undefined || requestedId === null || requestedId === "") {
+    return storage.getActiveCatalogVersion();
+  }
+  
+  const id = parseInt(String(requestedId));
+  if (isNaN(id)) return undefined;
+  
+  // Only published versions are immutable, so only they can be pinned to an analysis
+  const version = await storage.getCatalogVersionById(id);
+  return version?.status === "published" ? version : undefined;
+}
+
+/**
+ * Check whether a catalog version can still be edited
+ * @param id Catalog version ID
+ * @returns Boolean indicating the version exists and is still a draft
+ */
+async function isDraftCatalogVersion(id: number): Promise<boolean> {
+  const version = await storage.getCatalogVersionById(id);
+  return version?.status === "draft";
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Make sure the requirements catalog exists before any analysis runs
+  await storage.seedRequirements(defaultCatalogVersionName, defaultGenEdRequirements);
+
   // API route to upload and analyze a single syllabus
   app.post("/api/analyze", upload.single("file"), async (req, res) => {
     try {
@@ -49,101 +90,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const file = req.file;
       
-      // Extract text from the uploaded document
-      const text = await extractTextFromDocument(file.path, path.extname(file.originalname).toLowerCase());
-      
-      // Use OpenAI to analyze the extracted text against Gen Ed requirements
-      // If the OpenAI analysis fails, fall back to the basic keyword analysis
-      let analysisResult;
-      let analysisMethod = "keyword";
-      
-      try {
-        console.log("Analyzing syllabus with OpenAI...");
-        analysisResult = await analyzeWithOpenAI(text, genEdRequirements);
-        analysisMethod = "ai";
-        console.log("OpenAI analysis complete");
-      } catch (aiError) {
-        console.error("OpenAI analysis failed, falling back to basic analysis:", aiError);
-        analysisResult = await analyzeGenEdRequirements(text);
-      }
-      
-      // Always prioritize user-provided course information
-      // If user input is available, use it even if it's empty
-      const hasUserCourseName = 'courseName' in req.body; 
-      const hasUserCourseCode = 'courseCode' in req.body;
-      
-      const courseName = hasUserCourseName ? req.body.courseName : (analysisResult.courseName || "Unnamed Course");
-      const courseCode = hasUserCourseCode ? req.body.courseCode : (analysisResult.courseCode || "");
-
-      // Format the data for storage
-      const analysisData = {
-        courseName,
-        courseCode,
-        fileName: file.originalname,
-        fileSize: file.size,
-        fileType: path.extname(file.originalname).toLowerCase(),
-        approvedRequirements: analysisResult.approvedRequirements,
-        rejectedRequirements: analysisResult.rejectedRequirements,
-        bestFit: analysisResult.bestFit,
-        potentialFits: analysisResult.potentialFits,
-        poorFits: analysisResult.poorFits,
-        content: text, // Store the original extracted text
-        documentPath: "" // Will be set after file is copied
-      };
-
-      // Validate the data before storing
-      const parsedData = insertAnalysisSchema.parse(analysisData);
-      
-      // Create a unique stored filename for the document
-      const documentsDir = path.join(import.meta.dirname, "../uploads/documents");
-      if (!fs.existsSync(documentsDir)) {
-        fs.mkdirSync(documentsDir, { recursive: true });
-      }
-      
-      // Generate document ID and path for storage
-      const documentId = Date.now() + '-' + Math.round(Math.random() * 1E9);
-      const storedFilename = `document-${documentId}${path.extname(file.originalname)}`;
-      
-      // Process PDF files for web optimization if applicable
-      let finalStoredFilename = storedFilename;
-      if (isPDF(file.path)) {
-        console.log('Processing PDF for web optimization...');
-        finalStoredFilename = processPDFForWeb(file.path, documentsDir, storedFilename);
-      } else {
-        // For non-PDF files, just copy as-is
-        const storedPath = path.join(documentsDir, storedFilename);
-        fs.copyFileSync(file.path, storedPath);
+      // Determine which requirements catalog version to analyze against
+      const catalogVersion = await resolveCatalogVersion(req.body.catalogVersionId);
+      if (!catalogVersion) {
+        fs.unlinkSync(file.path);
+        return res.status(400).json({ message: "Requested catalog version does not exist or is not published" });
       }
       
-      // Add the document path to the analysis data
-      parsedData.documentPath = finalStoredFilename;
-      
-      // Store the analysis in the database
-      const savedAnalysis = await storage.createAnalysis(parsedData);
-
-      // Clean up the temporary uploaded file
-      fs.unlinkSync(file.path);
-
-      // Return the analysis result
-      res.status(200).json({
-        id: savedAnalysis.id,
-        courseName, 
-        courseCode,
-        approvedRequirements: analysisResult.approvedRequirements,
-        rejectedRequirements: analysisResult.rejectedRequirements,
+      // Analyze in the background; the client polls the job for the result
+      const job = await enqueueAnalysisJob({
+        filePath: file.path,
         fileName: file.originalname,
         fileSize: file.size,
-        fileType: path.extname(file.originalname).toLowerCase(),
-        uploadDate: savedAnalysis.uploadDate,
-        analysisMethod: analysisMethod,
-        bestFit: analysisResult.bestFit,
-        potentialFits: analysisResult.potentialFits,
-        poorFits: analysisResult.poorFits,
-        content: text // Include the extracted text in the response
+        catalogVersionId: catalogVersion.id,
+        // Always prioritize user-provided course information
+        // If user input is available, use it even if it's empty
+        courseName: typeof req.body.courseName === "string" ? req.body.courseName : undefined,
+        courseCode: typeof req.body.courseCode === "string" ? req.body.courseCode : undefined,
+        // Who uploaded the syllabus, for the usage report
+        submittedBy: req.body.submittedBy?.trim() || undefined,
+        // Re-run the analysis even if an identical syllabus is cached
+        force: req.body.force === "true" || req.query.force === "true"
       });
+      
+      res.status(202).json(toJobStatus(job));
     } catch (error: any) {
-      console.error("Error analyzing syllabus:", error);
-      res.status(500).json({ message: error.message || "An error occurred during analysis" });
+      console.error("Error queueing syllabus analysis:", error);
+      res.status(500).json({ message: error.message || "Failed to queue analysis" });
     }
   });
 
@@ -176,6 +149,221 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // API route to retry the requirements an analysis could not analyze
+  app.post("/api/analyses/:id/retry-unanalyzed", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const analysis = await storage.getAnalysisById(id);
+      if (!analysis) {
+        return res.status(404).json({ message: "Analysis not found" });
+      }
+      
+      const unanalyzed = (analysis.unanalyzedRequirements || []) as UnanalyzedRequirement[];
+      if (unanalyzed.length === 0) {
+        return res.status(400).json({ message: "This analysis has no unanalyzed requirements" });
+      }
+      if (!analysis.content) {
+        return res.status(400).json({ message: "This analysis has no stored text to analyze" });
+      }
+      
+      const retriedNames = unanalyzed.map(req => req.name);
+      const result = await reanalyzeRequirements(analysis.content, {
+        catalogVersionId: analysis.catalogVersionId ?? undefined,
+        courseCode: analysis.courseCode || undefined,
+        requirementNames: retriedNames,
+        sections: analysis.sections ?? undefined,
+        schedule: analysis.schedule ?? undefined,
+        assessments: analysis.assessments ?? undefined
+      });
+      
+      // Only the retried requirements' verdicts are merged, whatever else the analyzer returned
+      const retried = <T extends { name: string }>(items?: T[]) =>
+        (items || []).filter(item => retriedNames.includes(item.name));
+      
+      // The retry's spend is added to the analysis
+      const usage = [...(analysis.usage || []), ...(result.usage || [])];
+      
+      // Replace the retried requirements' verdicts and keep everything else
+      const updated = await storage.updateAnalysis(id, {
+        approvedRequirements: [
+          ...(analysis.approvedRequirements as ApprovedRequirement[]).filter(req => !retriedNames.includes(req.name)),
+          ...retried(result.approvedRequirements)
+        ],
+        rejectedRequirements: [
+          ...(analysis.rejectedRequirements as RejectedRequirement[]).filter(req => !retriedNames.includes(req.name)),
+          ...retried(result.rejectedRequirements)
+        ],
+        unanalyzedRequirements: retried(result.unanalyzedRequirements),
+        usage,
+        ...totalUsage(usage)
+      });
+      
+      res.status(200).json(updated);
+    } catch (error: any) {
+      console.error("Error retrying unanalyzed requirements:", error);
+      res.status(500).json({ message: error.message || "Failed to retry unanalyzed requirements" });
+    }
+  });
+
+  // API route to replace the course learning outcomes of an analysis with a user's edits
+  app.put("/api/analyses/:id/learning-outcomes", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const { learningOutcomes } = updateLearningOutcomesSchema.parse(req.body);
+      const updated = await storage.updateAnalysis(id, { learningOutcomes, learningOutcomesEditedAt: new Date() });
+      if (!updated) {
+        return res.status(404).json({ message: "Analysis not found" });
+      }
+      
+      res.status(200).json(updated);
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating learning outcomes:", error);
+      res.status(500).json({ message: error.message || "Failed to update learning outcomes" });
+    }
+  });
+
+  // API route to get the status of an analysis job
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const job = await storage.getJobById(id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      res.status(200).json(toJobStatus(job));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch job" });
+    }
+  });
+
+  // API route to get the analysis a completed job produced
+  app.get("/api/jobs/:id/result", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const job = await storage.getJobById(id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.status !== "completed" || !job.result || !job.analysisId) {
+        return res.status(409).json({ message: "The job has not completed" });
+      }
+      
+      // The job keeps a summary; the text and sections are read from the saved analysis
+      const analysis = await storage.getAnalysisById(job.analysisId);
+      if (!analysis) {
+        return res.status(404).json({ message: "Analysis not found" });
+      }
+      
+      res.status(200).json({
+        ...job.result,
+        content: analysis.content ?? undefined,
+        sections: analysis.sections ?? undefined,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch job result" });
+    }
+  });
+
+  // API route to list multi-file upload batches, newest first
+  app.get("/api/batches", async (req, res) => {
+    try {
+      const batches = await storage.getBatches();
+      res.status(200).json(batches);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch batches" });
+    }
+  });
+
+  // API route to get a batch with the outcome of each file
+  app.get("/api/batches/:id", async (req, res) => {
+    try {
+      const batch = await storage.getBatchById(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+      
+      const jobs = await storage.getBatchJobs(batch.id);
+      res.status(200).json({ ...batch, files: jobs.map(toBatchFile) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch batch" });
+    }
+  });
+
+  // API route to queue the failed files of a batch again
+  app.post("/api/batches/:id/rerun", async (req, res) => {
+    try {
+      const batch = await storage.getBatchById(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+      
+      const requeued = await rerunFailedBatchFiles(batch.id);
+      res.status(202).json({ requeued });
+    } catch (error: any) {
+      console.error("Error re-running batch files:", error);
+      res.status(500).json({ message: error.message || "Failed to re-run batch files" });
+    }
+  });
+
+  // API route to download the outcome of every file of a batch as CSV
+  app.get("/api/batches/:id/export", async (req, res) => {
+    try {
+      const batch = await storage.getBatchById(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+      
+      const jobs = await storage.getBatchJobs(batch.id);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="batch-${batch.id}.csv"`);
+      res.status(200).send(batchToCsv({ ...batch, files: jobs.map(toBatchFile) }));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to export batch" });
+    }
+  });
+
+  // API route to report spend on the AI service by day, submitter and batch
+  app.get("/api/admin/usage", async (req, res) => {
+    try {
+      // Optional date range, e.g. ?from=2026-10-01&to=2026-10-31
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ message: "Invalid date format" });
+      }
+      
+      // The end date is inclusive
+      if (to) {
+        to.setUTCDate(to.getUTCDate() + 1);
+      }
+      
+      const report = await storage.getUsageReport(from, to);
+      res.status(200).json(report);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to build usage report" });
+    }
+  });
+
   // API route to get recent analyses
   app.get("/api/analyses/recent/:limit", async (req, res) => {
     try {
@@ -206,128 +394,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No files uploaded" });
       }
       
-      const results = [];
-      const errors = [];
-      
-      // Process each file
-      for (const file of files) {
-        try {
-          // Extract text from the uploaded document
-          const text = await extractTextFromDocument(file.path, path.extname(file.originalname).toLowerCase());
-          
-          // Use OpenAI to analyze the extracted text against Gen Ed requirements
-          // If the OpenAI analysis fails, fall back to the basic keyword analysis
-          let analysisResult;
-          let analysisMethod = "keyword";
-          
-          try {
-            console.log(`Analyzing syllabus ${file.originalname} with OpenAI...`);
-            analysisResult = await analyzeWithOpenAI(text, genEdRequirements);
-            analysisMethod = "ai";
-            console.log(`OpenAI analysis complete for ${file.originalname}`);
-          } catch (aiError) {
-            console.error(`OpenAI analysis failed for ${file.originalname}, falling back to basic analysis:`, aiError);
-            analysisResult = await analyzeGenEdRequirements(text);
-          }
-          
-          // Get file-specific course info if provided
-          const fileSpecificName = req.body[`courseName_${file.originalname}`] || "";
-          const fileSpecificCode = req.body[`courseCode_${file.originalname}`] || "";
-          
-          // Use file-specific course info if provided, otherwise use AI extraction results
-          let courseName = fileSpecificName || analysisResult.courseName || "Unnamed Course";
-          let courseCode = fileSpecificCode || analysisResult.courseCode || "";
-          
-          // Format the data for storage
-          const analysisData = {
-            courseName,
-            courseCode,
-            fileName: file.originalname,
-            fileSize: file.size,
-            fileType: path.extname(file.originalname).toLowerCase(),
-            approvedRequirements: analysisResult.approvedRequirements,
-            rejectedRequirements: analysisResult.rejectedRequirements,
-            content: text, // Store the original document text
-            documentPath: "", // Will be set after file is copied
-            bestFit: analysisResult.bestFit,
-            potentialFits: analysisResult.potentialFits,
-            poorFits: analysisResult.poorFits
-          };
-          
-          // Validate the data before storing
-          const parsedData = insertAnalysisSchema.parse(analysisData);
-          
-          // Create a unique stored filename for the document
-          const documentsDir = path.join(import.meta.dirname, "../uploads/documents");
-          if (!fs.existsSync(documentsDir)) {
-            fs.mkdirSync(documentsDir, { recursive: true });
-          }
-          
-          // Generate document ID and path for storage
-          const documentId = Date.now() + '-' + Math.round(Math.random() * 1E9);
-          const storedFilename = `document-${documentId}${path.extname(file.originalname)}`;
-          
-          // Process PDF files for web optimization if applicable
-          let finalStoredFilename = storedFilename;
-          if (isPDF(file.path)) {
-            console.log(`Processing PDF for web optimization: ${file.originalname}`);
-            finalStoredFilename = processPDFForWeb(file.path, documentsDir, storedFilename);
-          } else {
-            // For non-PDF files, just copy as-is
-            const storedPath = path.join(documentsDir, storedFilename);
-            fs.copyFileSync(file.path, storedPath);
-          }
-          
-          // Add the document path to the analysis data
-          parsedData.documentPath = finalStoredFilename;
-          
-          // Store the analysis in the database
-          const savedAnalysis = await storage.createAnalysis(parsedData);
-          
-          // Add to results
-          results.push({
-            id: savedAnalysis.id,
-            courseName,
-            courseCode,
-            approvedRequirements: analysisResult.approvedRequirements,
-            rejectedRequirements: analysisResult.rejectedRequirements,
-            fileName: file.originalname,
-            fileSize: file.size,
-            fileType: path.extname(file.originalname).toLowerCase(),
-            uploadDate: savedAnalysis.uploadDate,
-            analysisMethod,
-            bestFit: analysisResult.bestFit,
-            potentialFits: analysisResult.potentialFits,
-            poorFits: analysisResult.poorFits,
-            content: text, // Include the extracted text
-            documentPath: finalStoredFilename // Include the document path
-          });
-          
-          // Clean up the temporary uploaded file
-          fs.unlinkSync(file.path);
-          
-        } catch (fileError: any) {
-          // Add to errors but continue processing other files
-          errors.push({
-            fileName: file.originalname,
-            error: fileError.message || "Error analyzing file"
-          });
-          
-          // Clean up the file even if analysis failed
+      // Determine which requirements catalog version to analyze against
+      const catalogVersion = await resolveCatalogVersion(req.body.catalogVersionId);
+      if (!catalogVersion) {
+        for (const file of files) {
           if (fs.existsSync(file.path)) {
             fs.unlinkSync(file.path);
           }
         }
+        return res.status(400).json({ message: "Requested catalog version does not exist or is not published" });
       }
       
-      // Return the combined results
-      res.status(200).json({
-        success: results,
-        errors: errors
+      // Record the upload as a batch so its syllabi can be found and followed up together
+      const submittedBy = req.body.submittedBy?.trim() || undefined;
+      const batch = await storage.createBatch({
+        id: crypto.randomUUID(),
+        name: req.body.batchName?.trim() || `${files.length} syllabi uploaded ${new Date().toISOString().slice(0, 10)}`,
+        submittedBy,
+        catalogVersionId: catalogVersion.id,
       });
+      const batchId = batch.id;
+      
+      // Re-run the analyses even if identical syllabi are cached
+      const force = req.body.force === "true" || req.query.force === "true";
+      
+      // Queue one job per file; the client polls each job for its result
+      const jobs = [];
+      for (const file of files) {
+        const job = await enqueueAnalysisJob({
+          filePath: file.path,
+          fileName: file.originalname,
+          fileSize: file.size,
+          catalogVersionId: catalogVersion.id,
+          // Use file-specific course info if provided, otherwise use AI extraction results
+          courseName: req.body[`courseName_${file.originalname}`] || undefined,
+          courseCode: req.body[`courseCode_${file.originalname}`] || undefined,
+          submittedBy,
+          batchId,
+          force
+        });
+        jobs.push(toJobStatus(job));
+      }
+      
+      res.status(202).json({ batchId, jobs });
       
     } catch (error: any) {
-      console.error("Error analyzing multiple syllabi:", error);
+      console.error("Error queueing multiple syllabi:", error);
       res.status(500).json({ message: error.message || "An error occurred during analysis" });
     }
   });
@@ -352,6 +464,353 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // API route to list the Gen Ed requirements of a catalog version (the active one by default)
+  app.get("/api/requirements", async (req, res) => {
+    try {
+      let catalogVersionId: number | undefined;
+      if (req.query.catalogVersionId !== undefined) {
+        catalogVersionId = parseInt(String(req.query.catalogVersionId));
+        if (isNaN(catalogVersionId)) {
+          return res.status(400).json({ message: "Invalid catalog version ID format" });
+        }
+      }
+      
+      const requirements = await storage.getRequirements(catalogVersionId);
+      res.status(200).json(requirements);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch requirements" });
+    }
+  });
+  
+  // API route to get a specific requirement by ID
+  app.get("/api/requirements/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const requirement = await storage.getRequirementById(id);
+      if (!requirement) {
+        return res.status(404).json({ message: "Requirement not found" });
+      }
+      
+      res.status(200).json(requirement);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch requirement" });
+    }
+  });
+  
+  // API route to add a requirement to a draft catalog version
+  app.post("/api/requirements", async (req, res) => {
+    try {
+      const requirementData = insertRequirementSchema.parse(req.body);
+      if (!(await isDraftCatalogVersion(requirementData.catalogVersionId))) {
+        return res.status(409).json({ message: "Requirements can only be added to draft catalog versions" });
+      }
+      
+      const requirement = await storage.createRequirement(requirementData);
+      res.status(201).json(requirement);
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating requirement:", error);
+      res.status(500).json({ message: error.message || "Failed to create requirement" });
+    }
+  });
+  
+  // API route to update a requirement in a draft catalog version
+  app.put("/api/requirements/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const existing = await storage.getRequirementById(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Requirement not found" });
+      }
+      if (!(await isDraftCatalogVersion(existing.catalogVersionId))) {
+        return res.status(409).json({ message: "Requirements of published catalog versions cannot be changed" });
+      }
+      
+      const updates = insertRequirementSchema.omit({ catalogVersionId: true }).partial().parse(req.body);
+      const requirement = await storage.updateRequirement(id, updates);
+      
+      res.status(200).json(requirement);
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating requirement:", error);
+      res.status(500).json({ message: error.message || "Failed to update requirement" });
+    }
+  });
+  
+  // API route to remove a requirement from a draft catalog version
+  app.delete("/api/requirements/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const existing = await storage.getRequirementById(id);
+      if (existing && !(await isDraftCatalogVersion(existing.catalogVersionId))) {
+        return res.status(409).json({ message: "Requirements of published catalog versions cannot be deleted" });
+      }
+      
+      const deleted = await storage.deleteRequirement(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Requirement not found or could not be deleted" });
+      }
+      
+      res.status(200).json({ message: "Requirement deleted successfully" });
+    } catch (error: any) {
+      console.error("Error deleting requirement:", error);
+      res.status(500).json({ message: error.message || "Failed to delete requirement" });
+    }
+  });
+  
+  // API route to list requirement catalog versions
+  app.get("/api/catalog-versions", async (req, res) => {
+    try {
+      const versions = await storage.getCatalogVersions();
+      res.status(200).json(versions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch catalog versions" });
+    }
+  });
+  
+  // API route to get a catalog version together with its requirements
+  app.get("/api/catalog-versions/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const version = await storage.getCatalogVersionById(id);
+      if (!version) {
+        return res.status(404).json({ message: "Catalog version not found" });
+      }
+      
+      const requirements = await storage.getRequirements(id);
+      res.status(200).json({ ...version, requirements });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Failed to fetch catalog version" });
+    }
+  });
+  
+  // API route to create a draft catalog version, optionally copying another version's requirements
+  app.post("/api/catalog-versions", async (req, res) => {
+    try {
+      const versionData = insertCatalogVersionSchema.parse(req.body);
+      
+      let copyFromId: number | undefined;
+      if (req.body.copyFromId !== undefined && req.body.copyFromId !== null) {
+        copyFromId = parseInt(String(req.body.copyFromId));
+        if (isNaN(copyFromId) || !(await storage.getCatalogVersionById(copyFromId))) {
+          return res.status(400).json({ message: "Catalog version to copy from does not exist" });
+        }
+      }
+      
+      const version = await storage.createCatalogVersion(versionData, copyFromId);
+      res.status(201).json(version);
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating catalog version:", error);
+      res.status(500).json({ message: error.message || "Failed to create catalog version" });
+    }
+  });
+  
+  // API route to import a draft catalog version from the official GE SLO document
+  app.post("/api/catalog-versions/import", upload.single("file"), async (req, res) => {
+    const file = req.file;
+    try {
+      const versionData = insertCatalogVersionSchema.parse({
+        name: req.body.name,
+        description: req.body.description || `Imported from ${file ? file.originalname : path.basename(defaultRequirementsDocument)}`,
+      });
+      
+      // The draft is based on, and diffed against, the active version unless another one is requested
+      const baseVersionId = req.body.baseVersionId ? Number(req.body.baseVersionId) : undefined;
+      if (baseVersionId !== undefined && !Number.isInteger(baseVersionId)) {
+        return res.status(400).json({ message: "Invalid base catalog version ID" });
+      }
+      const baseVersion = baseVersionId !== undefined
+        ? await storage.getCatalogVersionById(baseVersionId)
+        : await storage.getActiveCatalogVersion();
+      if (baseVersionId !== undefined && !baseVersion) {
+        return res.status(400).json({ message: "Base catalog version does not exist" });
+      }
+      const baseRequirements = baseVersion ? await storage.getRequirements(baseVersion.id) : [];
+      
+      const blocks = file
+        ? await importRequirementsFromDocument(file.path, path.extname(file.originalname).toLowerCase(), baseRequirements)
+        : await importRequirementsFromDocument(defaultRequirementsDocument, ".pdf", baseRequirements);
+      if (blocks.length === 0) {
+        return res.status(422).json({ message: "No requirement blocks could be found in the document" });
+      }
+      
+      // Imported requirements get the same checks as requirements added by hand
+      const definitionSchema = insertRequirementSchema.omit({ catalogVersionId: true });
+      const invalid = blocks.flatMap(block => {
+        const parsed = definitionSchema.safeParse(block.requirement);
+        return parsed.success ? [] : [`${block.heading}: ${fromZodError(parsed.error).message}`];
+      });
+      if (invalid.length > 0) {
+        return res.status(422).json({ message: `Some requirement blocks could not be imported. ${invalid.join("; ")}` });
+      }
+      
+      const definitions = blocks.map(block => definitionSchema.parse(block.requirement));
+      const version = await storage.importCatalogVersion(versionData, definitions);
+      
+      res.status(201).json({
+        version,
+        baseVersion: baseVersion || null,
+        requirements: await storage.getRequirements(version.id),
+        blocks: blocks.map(block => ({
+          heading: block.heading,
+          name: block.requirement.name,
+          bulletinRequirements: block.bulletinRequirements || null,
+          warnings: block.warnings,
+        })),
+        diff: diffCatalogs(baseRequirements, definitions),
+      });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error importing catalog version:", error);
+      res.status(500).json({ message: error.message || "Failed to import catalog version" });
+    } finally {
+      // Clean up the temporary uploaded file
+      if (file && fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+      }
+    }
+  });
+  
+  // API route to compare a catalog version against another one (the active version by default)
+  app.get("/api/catalog-versions/:id/diff", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const version = await storage.getCatalogVersionById(id);
+      if (!version) {
+        return res.status(404).json({ message: "Catalog version not found" });
+      }
+      
+      const againstId = req.query.against !== undefined ? Number(req.query.against) : undefined;
+      if (againstId !== undefined && !Number.isInteger(againstId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const baseVersion = againstId !== undefined
+        ? await storage.getCatalogVersionById(againstId)
+        : await storage.getActiveCatalogVersion();
+      if (!baseVersion) {
+        return res.status(404).json({ message: "Catalog version to compare against not found" });
+      }
+      
+      const [baseRequirements, requirements] = await Promise.all([
+        storage.getRequirements(baseVersion.id),
+        storage.getRequirements(version.id),
+      ]);
+      
+      res.status(200).json({
+        version,
+        baseVersion,
+        diff: diffCatalogs(baseRequirements, requirements),
+      });
+    } catch (error: any) {
+      console.error("Error comparing catalog versions:", error);
+      res.status(500).json({ message: error.message || "Failed to compare catalog versions" });
+    }
+  });
+  
+  // API route to publish a draft catalog version, making it immutable
+  app.post("/api/catalog-versions/:id/publish", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const requirements = await storage.getRequirements(id);
+      if (requirements.length === 0) {
+        return res.status(409).json({ message: "Cannot publish a catalog version without requirements" });
+      }
+      
+      // Analyses are judged against published versions, so every requirement must be complete
+      const incomplete = requirements.flatMap(requirement => {
+        const parsed = publishableRequirementSchema.safeParse(requirement);
+        return parsed.success ? [] : [`${requirement.name}: ${fromZodError(parsed.error).message}`];
+      });
+      if (incomplete.length > 0) {
+        return res.status(409).json({ message: `Cannot publish a catalog version with incomplete requirements. ${incomplete.join("; ")}` });
+      }
+      
+      const version = await storage.publishCatalogVersion(id);
+      if (!version) {
+        return res.status(409).json({ message: "Catalog version not found or already published" });
+      }
+      
+      res.status(200).json(version);
+    } catch (error: any) {
+      console.error("Error publishing catalog version:", error);
+      res.status(500).json({ message: error.message || "Failed to publish catalog version" });
+    }
+  });
+  
+  // API route to make a published catalog version the default for new analyses
+  app.post("/api/catalog-versions/:id/activate", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const version = await storage.activateCatalogVersion(id);
+      if (!version) {
+        return res.status(409).json({ message: "Only published catalog versions can be activated" });
+      }
+      
+      res.status(200).json(version);
+    } catch (error: any) {
+      console.error("Error activating catalog version:", error);
+      res.status(500).json({ message: error.message || "Failed to activate catalog version" });
+    }
+  });
+  
+  // API route to delete a draft catalog version
+  app.delete("/api/catalog-versions/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const deleted = await storage.deleteCatalogVersion(id);
+      if (!deleted) {
+        return res.status(409).json({ message: "Catalog version not found or already published" });
+      }
+      
+      res.status(200).json({ message: "Catalog version deleted successfully" });
+    } catch (error: any) {
+      console.error("Error deleting catalog version:", error);
+      res.status(500).json({ message: error.message || "Failed to delete catalog version" });
+    }
+  });
+  
   // API route to get the original syllabus content for a specific analysis
   app.get("/api/analyses/:id/content", async (req, res) => {
     try {
@@ -449,6 +908,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  
+  // Live analysis progress for the browser
+  attachProgressServer(httpServer);
 
   return httpServer;
 }
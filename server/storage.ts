@@ -1,6 +1,15 @@
-import { analyses, users, type User, type InsertUser, type Analysis, type InsertAnalysis } from "@shared/schema";
+import { 
+  analyses, users, requirements, catalogVersions, analysisCache, analysisJobs, batches,
+  type User, type InsertUser, type Analysis, type InsertAnalysis,
+  type AnalysisCacheEntry, type InsertAnalysisCacheEntry,
+  type AnalysisJob, type InsertAnalysisJob,
+  type Batch, type InsertBatch, type BatchSummary,
+  type Requirement, type InsertRequirement, type RequirementDefinition,
+  type CatalogVersion, type InsertCatalogVersion,
+  type UsageReport, type UsageSummary
+} from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, or, like } from "drizzle-orm";
+import { eq, desc, or, like, asc, and, ne, gte, lt, lte, inArray, sql, getTableColumns, TransactionRollbackError, type SQL } from "drizzle-orm";
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
@@ -13,7 +22,46 @@ export interface IStorage {
   getAnalysisById(id: number): Promise<Analysis | undefined>;
   getRecentAnalyses(limit: number): Promise<Analysis[]>;
   searchAnalyses(query: string): Promise<Analysis[]>;
+  updateAnalysis(id: number, updates: Partial<InsertAnalysis>): Promise<Analysis | undefined>;
   deleteAnalysis(id: number): Promise<boolean>;
+  getUsageReport(from?: Date, to?: Date): Promise<UsageReport>;
+  
+  // Analysis cache methods
+  getCachedAnalysis(cacheKey: string): Promise<AnalysisCacheEntry | undefined>;
+  saveCachedAnalysis(entry: InsertAnalysisCacheEntry): Promise<AnalysisCacheEntry>;
+  
+  // Analysis job queue methods
+  createJob(job: InsertAnalysisJob): Promise<AnalysisJob>;
+  getJobById(id: number): Promise<AnalysisJob | undefined>;
+  claimNextJob(lockTimeoutMs: number): Promise<AnalysisJob | undefined>;
+  updateJob(id: number, updates: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined>;
+  updateClaimedJob(id: number, lockedAt: Date, updates: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined>;
+  completeClaimedJob(id: number, lockedAt: Date, analysis: InsertAnalysis, complete: (saved: Analysis) => Partial<InsertAnalysisJob>): Promise<Analysis | undefined>;
+  getBatchJobs(batchId: string): Promise<AnalysisJob[]>;
+  
+  // Batch methods
+  createBatch(batch: InsertBatch): Promise<Batch>;
+  getBatches(): Promise<BatchSummary[]>;
+  getBatchById(id: string): Promise<Batch | undefined>;
+  updateBatch(id: string, updates: Partial<InsertBatch>): Promise<Batch | undefined>;
+  
+  // Requirements catalog methods
+  getRequirements(catalogVersionId?: number): Promise<Requirement[]>;
+  getRequirementById(id: number): Promise<Requirement | undefined>;
+  createRequirement(requirement: InsertRequirement): Promise<Requirement>;
+  updateRequirement(id: number, requirement: Partial<RequirementDefinition>): Promise<Requirement | undefined>;
+  deleteRequirement(id: number): Promise<boolean>;
+  seedRequirements(versionName: string, defaults: RequirementDefinition[]): Promise<void>;
+  
+  // Catalog version methods
+  getCatalogVersions(): Promise<CatalogVersion[]>;
+  getCatalogVersionById(id: number): Promise<CatalogVersion | undefined>;
+  getActiveCatalogVersion(): Promise<CatalogVersion | undefined>;
+  createCatalogVersion(version: InsertCatalogVersion, copyFromId?: number): Promise<CatalogVersion>;
+  importCatalogVersion(version: InsertCatalogVersion, definitions: RequirementDefinition[]): Promise<CatalogVersion>;
+  publishCatalogVersion(id: number): Promise<CatalogVersion | undefined>;
+  activateCatalogVersion(id: number): Promise<CatalogVersion | undefined>;
+  deleteCatalogVersion(id: number): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -73,6 +121,15 @@ export class DatabaseStorage implements IStorage {
       );
   }
   
+  async updateAnalysis(id: number, updates: Partial<InsertAnalysis>): Promise<Analysis | undefined> {
+    const [analysis] = await db
+      .update(analyses)
+      .set(updates)
+      .where(eq(analyses.id, id))
+      .returning();
+    return analysis;
+  }
+  
   async deleteAnalysis(id: number): Promise<boolean> {
     try {
       const result = await db
@@ -86,6 +143,367 @@ export class DatabaseStorage implements IStorage {
       return false;
     }
   }
+  
+  async getUsageReport(from?: Date, to?: Date): Promise<UsageReport> {
+    const period = and(
+      from ? gte(analyses.uploadDate, from) : undefined,
+      to ? lt(analyses.uploadDate, to) : undefined
+    );
+    
+    const [total] = await this.summarizeUsage(period);
+    return {
+      total,
+      byDay: await this.summarizeUsage(period, sql<string>`to_char(${analyses.uploadDate}, 'YYYY-MM-DD')`),
+      byUser: await this.summarizeUsage(period, sql<string | null>`${analyses.submittedBy}`),
+      byBatch: await this.summarizeUsage(period, sql<string | null>`${analyses.batchId}`),
+    };
+  }
+  
+  // Add up the spend of the analyses in a period, grouped by a key, or in total without one
+  private async summarizeUsage(period: SQL | undefined, key?: SQL<string | null>): Promise<UsageSummary[]> {
+    const query = db
+      .select({
+        key: key ?? sql<string | null>`null`,
+        analyses: sql<number>`count(*)`.mapWith(Number),
+        promptTokens: sql<number>`coalesce(sum(${analyses.promptTokens}), 0)`.mapWith(Number),
+        completionTokens: sql<number>`coalesce(sum(${analyses.completionTokens}), 0)`.mapWith(Number),
+        estimatedCost: sql<number>`coalesce(sum(${analyses.estimatedCost}), 0)`.mapWith(Number),
+      })
+      .from(analyses)
+      .where(period);
+    
+    return key ? await query.groupBy(key).orderBy(key) : await query;
+  }
+  
+  async getCachedAnalysis(cacheKey: string): Promise<AnalysisCacheEntry | undefined> {
+    const [entry] = await db.select().from(analysisCache).where(eq(analysisCache.cacheKey, cacheKey));
+    return entry;
+  }
+  
+  async saveCachedAnalysis(entry: InsertAnalysisCacheEntry): Promise<AnalysisCacheEntry> {
+    // A forced re-run replaces the cached result
+    const [saved] = await db
+      .insert(analysisCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: analysisCache.cacheKey,
+        set: { result: entry.result, createdAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+  
+  async createJob(job: InsertAnalysisJob): Promise<AnalysisJob> {
+    const [created] = await db.insert(analysisJobs).values(job).returning();
+    return created;
+  }
+  
+  async getJobById(id: number): Promise<AnalysisJob | undefined> {
+    const [job] = await db.select().from(analysisJobs).where(eq(analysisJobs.id, id));
+    return job;
+  }
+  
+  async claimNextJob(lockTimeoutMs: number): Promise<AnalysisJob | undefined> {
+    const now = new Date();
+    
+    // The oldest job that is due, or whose worker stopped responding; SKIP LOCKED lets
+    // several workers claim jobs at once without taking the same one
+    const claimable = db
+      .select({ id: analysisJobs.id })
+      .from(analysisJobs)
+      .where(or(
+        and(eq(analysisJobs.status, "queued"), lte(analysisJobs.runAfter, now)),
+        and(eq(analysisJobs.status, "running"), lt(analysisJobs.lockedAt, new Date(now.getTime() - lockTimeoutMs)))
+      ))
+      .orderBy(asc(analysisJobs.id))
+      .limit(1)
+      .for("update", { skipLocked: true });
+    
+    const [job] = await db
+      .update(analysisJobs)
+      .set({
+        status: "running",
+        attempts: sql`${analysisJobs.attempts} + 1`,
+        lockedAt: now,
+      })
+      .where(inArray(analysisJobs.id, claimable))
+      .returning();
+    return job;
+  }
+  
+  async updateJob(id: number, updates: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined> {
+    const [job] = await db
+      .update(analysisJobs)
+      .set(updates)
+      .where(eq(analysisJobs.id, id))
+      .returning();
+    return job;
+  }
+  
+  async updateClaimedJob(id: number, lockedAt: Date, updates: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined> {
+    // Matching the lock time makes the update miss once another worker has taken the job over
+    const [job] = await db
+      .update(analysisJobs)
+      .set(updates)
+      .where(and(
+        eq(analysisJobs.id, id),
+        eq(analysisJobs.status, "running"),
+        eq(analysisJobs.lockedAt, lockedAt)
+      ))
+      .returning();
+    return job;
+  }
+  
+  async completeClaimedJob(
+    id: number,
+    lockedAt: Date,
+    analysis: InsertAnalysis,
+    complete: (saved: Analysis) => Partial<InsertAnalysisJob>
+  ): Promise<Analysis | undefined> {
+    try {
+      // The analysis is only kept if the job is still this worker's, so a rerun never stores a second one
+      return await db.transaction(async (tx) => {
+        const [saved] = await tx
+          .insert(analyses)
+          .values(analysis)
+          .returning();
+        
+        const [job] = await tx
+          .update(analysisJobs)
+          .set({ ...complete(saved), analysisId: saved.id })
+          .where(and(
+            eq(analysisJobs.id, id),
+            eq(analysisJobs.status, "running"),
+            eq(analysisJobs.lockedAt, lockedAt)
+          ))
+          .returning({ id: analysisJobs.id });
+        if (!job) tx.rollback();
+        
+        return saved;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+  
+  async getBatchJobs(batchId: string): Promise<AnalysisJob[]> {
+    return await db
+      .select()
+      .from(analysisJobs)
+      .where(eq(analysisJobs.batchId, batchId))
+      .orderBy(asc(analysisJobs.id));
+  }
+  
+  async createBatch(batch: InsertBatch): Promise<Batch> {
+    const [created] = await db.insert(batches).values(batch).returning();
+    return created;
+  }
+  
+  async getBatches(): Promise<BatchSummary[]> {
+    return await db
+      .select({
+        ...getTableColumns(batches),
+        fileCount: sql<number>`count(${analysisJobs.id})`.mapWith(Number),
+        completedCount: sql<number>`count(${analysisJobs.id}) filter (where ${analysisJobs.status} = 'completed')`.mapWith(Number),
+        failedCount: sql<number>`count(${analysisJobs.id}) filter (where ${analysisJobs.status} = 'failed')`.mapWith(Number),
+      })
+      .from(batches)
+      .leftJoin(analysisJobs, eq(analysisJobs.batchId, batches.id))
+      .groupBy(batches.id)
+      .orderBy(desc(batches.createdAt));
+  }
+  
+  async getBatchById(id: string): Promise<Batch | undefined> {
+    const [batch] = await db.select().from(batches).where(eq(batches.id, id));
+    return batch;
+  }
+  
+  async updateBatch(id: string, updates: Partial<InsertBatch>): Promise<Batch | undefined> {
+    const [batch] = await db
+      .update(batches)
+      .set(updates)
+      .where(eq(batches.id, id))
+      .returning();
+    return batch;
+  }
+  
+  async getRequirements(catalogVersionId?: number): Promise<Requirement[]> {
+    // Default to the active catalog version when none is requested
+    let versionId = catalogVersionId;
+    if (versionId === undefined) {
+      const activeVersion = await this.getActiveCatalogVersion();
+      if (!activeVersion) return [];
+      versionId = activeVersion.id;
+    }
+    
+    return await db
+      .select()
+      .from(requirements)
+      .where(eq(requirements.catalogVersionId, versionId))
+      .orderBy(asc(requirements.id));
+  }
+  
+  async getRequirementById(id: number): Promise<Requirement | undefined> {
+    const [requirement] = await db.select().from(requirements).where(eq(requirements.id, id));
+    return requirement;
+  }
+  
+  async createRequirement(insertRequirement: InsertRequirement): Promise<Requirement> {
+    const [requirement] = await db
+      .insert(requirements)
+      .values(insertRequirement)
+      .returning();
+    return requirement;
+  }
+  
+  async updateRequirement(id: number, updates: Partial<RequirementDefinition>): Promise<Requirement | undefined> {
+    const [requirement] = await db
+      .update(requirements)
+      .set(updates)
+      .where(eq(requirements.id, id))
+      .returning();
+    return requirement;
+  }
+  
+  async deleteRequirement(id: number): Promise<boolean> {
+    try {
+      const result = await db
+        .delete(requirements)
+        .where(eq(requirements.id, id))
+        .returning({ id: requirements.id });
+      
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting requirement:", error);
+      return false;
+    }
+  }
+  
+  async seedRequirements(versionName: string, defaults: RequirementDefinition[]): Promise<void> {
+    // Only seed when no catalog exists yet so edits made through the API are never overwritten
+    const [existing] = await db.select({ id: catalogVersions.id }).from(catalogVersions).limit(1);
+    if (existing) return;
+    
+    console.log(`Seeding requirements catalog ${versionName} with ${defaults.length} default requirements`);
+    await db.transaction(async (tx) => {
+      const [version] = await tx
+        .insert(catalogVersions)
+        .values({
+          name: versionName,
+          description: "Initial catalog seeded from the default Gen Ed requirements",
+          status: "published",
+          isActive: true,
+          publishedAt: new Date(),
+        })
+        .returning();
+      
+      await tx.insert(requirements).values(
+        defaults.map(requirement => ({ ...requirement, catalogVersionId: version.id }))
+      );
+    });
+  }
+  
+  async getCatalogVersions(): Promise<CatalogVersion[]> {
+    return await db.select().from(catalogVersions).orderBy(desc(catalogVersions.createdAt));
+  }
+  
+  async getCatalogVersionById(id: number): Promise<CatalogVersion | undefined> {
+    const [version] = await db.select().from(catalogVersions).where(eq(catalogVersions.id, id));
+    return version;
+  }
+  
+  async getActiveCatalogVersion(): Promise<CatalogVersion | undefined> {
+    const [version] = await db.select().from(catalogVersions).where(eq(catalogVersions.isActive, true));
+    return version;
+  }
+  
+  async createCatalogVersion(insertVersion: InsertCatalogVersion, copyFromId?: number): Promise<CatalogVersion> {
+    return await db.transaction(async (tx) => {
+      const [version] = await tx
+        .insert(catalogVersions)
+        .values({ ...insertVersion, status: "draft", isActive: false })
+        .returning();
+      
+      // Start the draft from an existing version's requirements if requested
+      if (copyFromId !== undefined) {
+        const sourceRequirements = await tx
+          .select()
+          .from(requirements)
+          .where(eq(requirements.catalogVersionId, copyFromId))
+          .orderBy(asc(requirements.id));
+        
+        if (sourceRequirements.length > 0) {
+          await tx.insert(requirements).values(
+            sourceRequirements.map(({ id, ...requirement }) => ({ ...requirement, catalogVersionId: version.id }))
+          );
+        }
+      }
+      
+      return version;
+    });
+  }
+  
+  async importCatalogVersion(insertVersion: InsertCatalogVersion, definitions: RequirementDefinition[]): Promise<CatalogVersion> {
+    return await db.transaction(async (tx) => {
+      const [version] = await tx
+        .insert(catalogVersions)
+        .values({ ...insertVersion, status: "draft", isActive: false })
+        .returning();
+      
+      if (definitions.length > 0) {
+        await tx.insert(requirements).values(
+          definitions.map(definition => ({ ...definition, catalogVersionId: version.id }))
+        );
+      }
+      
+      return version;
+    });
+  }
+  
+  async publishCatalogVersion(id: number): Promise<CatalogVersion | undefined> {
+    const [version] = await db
+      .update(catalogVersions)
+      .set({ status: "published", publishedAt: new Date() })
+      .where(and(eq(catalogVersions.id, id), eq(catalogVersions.status, "draft")))
+      .returning();
+    return version;
+  }
+  
+  async activateCatalogVersion(id: number): Promise<CatalogVersion | undefined> {
+    return await db.transaction(async (tx) => {
+      // Only published versions can be made active
+      const [version] = await tx
+        .update(catalogVersions)
+        .set({ isActive: true })
+        .where(and(eq(catalogVersions.id, id), eq(catalogVersions.status, "published")))
+        .returning();
+      
+      if (version) {
+        await tx
+          .update(catalogVersions)
+          .set({ isActive: false })
+          .where(ne(catalogVersions.id, id));
+      }
+      
+      return version;
+    });
+  }
+  
+  async deleteCatalogVersion(id: number): Promise<boolean> {
+    try {
+      // Published versions may be referenced by analyses, so only drafts can be deleted
+      const result = await db
+        .delete(catalogVersions)
+        .where(and(eq(catalogVersions.id, id), eq(catalogVersions.status, "draft")))
+        .returning({ id: catalogVersions.id });
+      
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting catalog version:", error);
+      return false;
+    }
+  }
 }
 
 export const storage = new DatabaseStorage();
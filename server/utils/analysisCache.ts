@@ -0,0 +1,81 @@
+import crypto from "crypto";
+import { AnalysisResult } from "@shared/schema";
+import { storage } from "../storage";
+
+// Everything an analyzer's verdict depends on besides the syllabus text
+export interface CacheIdentity {
+  catalogVersionId: number;
+  courseCode?: string;    // A user-supplied course code changes the rule and bulletin checks
+  model: string;
+  temperature?: number;       // Sampling temperature, or undefined for the server default
+  baseURL: string;            // API server the models ran on, or "" for OpenAI
+  promptVersion: string;
+  segmentationModel: string;  // Model that labelled the sections, or "" when headings were matched by name
+  chunkSize: number;          // Long syllabi are split into chunks of this many characters
+  maxChunks: number;          // and only this many are analyzed
+}
+
+/**
+ * Compute the SHA-256 hash of a text
+ * @param text The text to hash
+ * @returns string Hex digest
+ */
+export function hashText(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Look up a cached analysis result
+ * @param syllabusText The extracted text from the syllabus
+ * @param identity Catalog version, course code, model and prompt version
+ * @returns Promise<Partial<AnalysisResult> | undefined> The cached result, if any
+ */
+export async function getCachedResult(
+  syllabusText: string,
+  identity: CacheIdentity
+): Promise<Partial<AnalysisResult> | undefined> {
+  const entry = await storage.getCachedAnalysis(buildCacheKey(syllabusText, identity));
+  return entry?.result;
+}
+
+/**
+ * Store an analysis result for reuse
+ * @param syllabusText The extracted text from the syllabus
+ * @param identity Catalog version, course code, model and prompt version
+ * @param result The analysis result
+ */
+export async function storeCachedResult(
+  syllabusText: string,
+  identity: CacheIdentity,
+  result: Partial<AnalysisResult>
+): Promise<void> {
+  await storage.saveCachedAnalysis({
+    cacheKey: buildCacheKey(syllabusText, identity),
+    contentHash: hashText(syllabusText),
+    catalogVersionId: identity.catalogVersionId,
+    model: identity.model,
+    promptVersion: identity.promptVersion,
+    result,
+  });
+}
+
+/**
+ * Build the cache key for a syllabus and analyzer configuration
+ * @param syllabusText The extracted text from the syllabus
+ * @param identity Catalog version, course code, models and their server, prompt version and chunking
+ * @returns string Hex digest identifying the cache entry
+ */
+function buildCacheKey(syllabusText: string, identity: CacheIdentity): string {
+  return hashText(JSON.stringify([
+    hashText(syllabusText),
+    identity.catalogVersionId,
+    identity.courseCode?.trim().toUpperCase() || "",
+    identity.model,
+    identity.temperature ?? null,
+    identity.baseURL,
+    identity.promptVersion,
+    identity.segmentationModel,
+    identity.chunkSize,
+    identity.maxChunks,
+  ]));
+}
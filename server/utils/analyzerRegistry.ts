@@ -0,0 +1,169 @@
+import { AnalysisResult } from "@shared/schema";
+import { config } from "../config";
+import { AnalyzerOptions, analyzeGenEdRequirements } from "./genEdAnalyzer";
+import { PROMPT_VERSION, analyzeWithOpenAI } from "./openaiAnalyzer";
+import { analyzeWithFixture, recordFixture } from "./fixtureAnalyzer";
+import { CacheIdentity, getCachedResult, storeCachedResult } from "./analysisCache";
+import { describeModels, modelForStage } from "./openaiClient";
+
+// A backend that analyzes syllabus text against the requirements catalog
+export interface Analyzer {
+  name: string;                                    // Registry key used in config, e.g. "openai"
+  method: NonNullable<AnalysisResult["analysisMethod"]>;  // Reported to the client as analysisMethod
+  analyze(syllabusText: string, options: AnalyzerOptions): Promise<Partial<AnalysisResult>>;
+  // Models, their settings, prompt version and chunking the verdict depends on; analyzers without it are never cached
+  cacheIdentity?(): Omit<CacheIdentity, "catalogVersionId" | "courseCode">;
+}
+
+// Result of running the configured analyzers
+export interface AnalysisRun {
+  result: Partial<AnalysisResult>;
+  analyzer: Analyzer;     // The analyzer that produced the result
+  fallbackError?: Error;  // Why the primary analyzer failed, if the fallback was used
+  cached: boolean;        // The result was reused from the analysis cache
+}
+
+// Options for a single analysis run
+export interface RunOptions {
+  force?: boolean;  // Re-run the analyzer even if a cached result exists
+}
+
+const analyzers = new Map<string, Analyzer>();
+
+/**
+ * Register an analyzer so it can be selected in config
+ * @param analyzer The analyzer implementation
+ */
+export function registerAnalyzer(analyzer: Analyzer): void {
+  analyzers.set(analyzer.name, analyzer);
+}
+
+/**
+ * Look up a registered analyzer
+ * @param name The analyzer name
+ * @returns Analyzer The registered analyzer
+ */
+export function getAnalyzer(name: string): Analyzer {
+  const analyzer = analyzers.get(name);
+  if (!analyzer) {
+    throw new Error(`Unknown analyzer "${name}". Registered analyzers: ${Array.from(analyzers.keys()).join(", ")}`);
+  }
+  return analyzer;
+}
+
+/**
+ * Analyze a syllabus with the configured primary analyzer, falling back if it fails
+ * @param syllabusText The extracted text from the syllabus
+ * @param options Catalog version and user-supplied course code
+ * @param runOptions Whether to bypass the analysis cache
+ * @returns Promise<AnalysisRun> The result and the analyzer that produced it
+ */
+export async function runAnalysis(
+  syllabusText: string,
+  options: AnalyzerOptions,
+  runOptions: RunOptions = {}
+): Promise<AnalysisRun> {
+  const primary = getAnalyzer(config.analyzer.primary);
+
+  // Identical syllabi analyzed against the same catalog, model and prompts reuse the stored verdict
+  const cacheIdentity = primary.cacheIdentity && options.catalogVersionId !== undefined
+    ? { catalogVersionId: options.catalogVersionId, courseCode: options.courseCode, ...primary.cacheIdentity() }
+    : undefined;
+  if (cacheIdentity && !runOptions.force) {
+    const cachedResult = await getCachedResult(syllabusText, cacheIdentity).catch(error => {
+      console.error("Error reading the analysis cache:", error);
+      return undefined;
+    });
+    if (cachedResult) {
+      console.log(`Using cached ${primary.name} analysis`);
+      options.onProgress?.({ step: "cache", status: "completed", message: "Reused the analysis of an identical syllabus" });
+      // A cached verdict costs nothing this time
+      const result = { ...cachedResult, usage: [], promptTokens: 0, completionTokens: 0, estimatedCost: 0 };
+      return { result, analyzer: primary, cached: true };
+    }
+  }
+
+  let result: Partial<AnalysisResult>;
+  try {
+    console.log(`Analyzing syllabus with the ${primary.name} analyzer...`);
+    result = await primary.analyze(syllabusText, options);
+    console.log(`${primary.name} analysis complete`);
+  } catch (error) {
+    if (!config.analyzer.fallback) throw error;
+
+    const fallback = getAnalyzer(config.analyzer.fallback);
+    console.error(`${primary.name} analysis failed, falling back to the ${fallback.name} analyzer:`, error);
+    options.onProgress?.({
+      step: "fallback",
+      status: "failed",
+      message: `The ${primary.name} analyzer failed; falling back to the ${fallback.name} analyzer`
+    });
+
+    return {
+      result: await fallback.analyze(syllabusText, options),
+      analyzer: fallback,
+      fallbackError: error instanceof Error ? error : new Error(String(error)),
+      cached: false,
+    };
+  }
+
+  // Incomplete results are not cached, so the missing requirements are tried again next time
+  if (cacheIdentity && (result.unanalyzedRequirements || []).length === 0) {
+    await storeCachedResult(syllabusText, cacheIdentity, result).catch(error => {
+      console.error("Error writing the analysis cache:", error);
+    });
+  }
+
+  if (config.analyzer.recordFixtures && primary.name !== "fixture") {
+    await recordFixture(syllabusText, result).catch(error => {
+      console.error("Error recording the analysis fixture:", error);
+    });
+  }
+
+  return { result, analyzer: primary, cached: false };
+}
+
+/**
+ * Analyze only some requirements with the primary analyzer, e.g. to retry ones that could not be analyzed.
+ * There is no fallback, so one analysis never mixes verdicts from different analyzers.
+ * @param syllabusText The extracted text from the syllabus
+ * @param options Catalog version, course code and the requirements to analyze
+ * @returns Promise<Partial<AnalysisResult>> Verdicts for the requested requirements
+ */
+export async function reanalyzeRequirements(
+  syllabusText: string,
+  options: AnalyzerOptions & { requirementNames: string[] }
+): Promise<Partial<AnalysisResult>> {
+  const primary = getAnalyzer(config.analyzer.primary);
+  console.log(`Re-analyzing ${options.requirementNames.join(", ")} with the ${primary.name} analyzer...`);
+  return await primary.analyze(syllabusText, options);
+}
+
+registerAnalyzer({
+  name: "openai",
+  method: "ai",
+  analyze: analyzeWithOpenAI,
+  cacheIdentity: () => ({
+    model: describeModels(),
+    // The same model name can sample differently or be a different model on another server
+    temperature: config.openai.temperature,
+    baseURL: config.openai.baseURL,
+    promptVersion: PROMPT_VERSION,
+    // The sections steer which text each stage reads, so a different segmenter can change the verdict
+    segmentationModel: config.segmentation.useAI ? modelForStage("segmentation") : "",
+    chunkSize: config.openai.chunkSize,
+    maxChunks: config.openai.maxChunks,
+  }),
+});
+
+registerAnalyzer({
+  name: "keyword",
+  method: "keyword",
+  analyze: analyzeGenEdRequirements,
+});
+
+registerAnalyzer({
+  name: "fixture",
+  method: "fixture",
+  analyze: analyzeWithFixture,
+});
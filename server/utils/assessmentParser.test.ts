@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { Assessment, SyllabusSection } from "@shared/schema";
+import { isRevised, parseAssessments } from "./assessmentParser";
+
+/**
+ * Build syllabus text from headed sections, and the sections that mark them
+ * @param parts Section type, heading and body of each section
+ * @returns The syllabus text and its sections
+ */
+function syllabus(parts: [SyllabusSection["type"], string, string][]): { text: string; sections: SyllabusSection[] } {
+  let text = "";
+  const sections: SyllabusSection[] = [];
+  for (const [type, heading, body] of parts) {
+    const start = text.length;
+    text += `${heading}\n${body}\n\n`;
+    sections.push({ type, heading, start, end: text.length });
+  }
+  return { text, sections };
+}
+
+describe("parseAssessments", () => {
+  it("reads the name, kind, count, weight and length of each listing", () => {
+    const { text, sections } = syllabus([
+      ["grading", "Grading", [
+        "Three essays (5-7 pages each) 45%",
+        "Quizzes (10) 15%",
+        "Lab reports (8 x 2.5%) 20%",
+        "Final exam 20%",
+        "A 93-100%",
+      ].join("\n")],
+    ]);
+
+    const assessments = parseAssessments(text, sections);
+
+    expect(assessments.map(({ name, type, count, weight }) => ({ name, type, count, weight }))).toEqual([
+      { name: "Three essays", type: "writing", count: 3, weight: 45 },
+      { name: "Quizzes", type: "quiz", count: 10, weight: 15 },
+      { name: "Lab reports", type: "lab", count: 8, weight: 20 },
+      { name: "Final exam", type: "exam", count: 1, weight: 20 },
+    ]);
+    expect(assessments[0]).toMatchObject({ pages: 5, length: "5-7 pages" });
+  });
+
+  it("merges work listed under assignments with its line in the grading breakdown", () => {
+    const { text, sections } = syllabus([
+      ["assignments", "Assignments", [
+        "Research paper: a 2,500-word argument on a topic of your choice.",
+        "You will submit a draft for peer review and revise it after instructor feedback.",
+        "Group presentation: teams of three present their research.",
+      ].join("\n")],
+      ["grading", "Grading", "Research paper 40%\nGroup presentation 20%\nParticipation 10%"],
+    ]);
+
+    const assessments = parseAssessments(text, sections);
+
+    expect(assessments.map(assessment => assessment.name)).toEqual(["Research paper", "Group presentation", "Participation"]);
+    expect(assessments[0]).toMatchObject({
+      type: "writing",
+      weight: 40,
+      pages: 10,
+      length: "2,500-word",
+      revisionSteps: ["draft", "peer review", "instructor feedback", "revision"],
+    });
+    expect(assessments[1]).toMatchObject({ type: "presentation", weight: 20, collaborative: true });
+    expect(assessments[2]).toMatchObject({ type: "participation", weight: 10 });
+  });
+
+  it("converts points to percentages when the syllabus gives no percentages", () => {
+    const { text, sections } = syllabus([
+      ["grading", "Grading", "Homework 100 points\nMidterm 150 points\nFinal project 250 points"],
+    ]);
+
+    expect(parseAssessments(text, sections).map(assessment => assessment.weight)).toEqual([20, 30, 50]);
+  });
+
+  it("does not read policies or the section heading as assessments", () => {
+    const { text, sections } = syllabus([
+      ["assignments", "Assignments", "Late work loses 10% per day.\nWeekly problem sets 30%"],
+    ]);
+
+    expect(parseAssessments(text, sections).map(assessment => assessment.name)).toEqual(["Weekly problem sets"]);
+  });
+
+  it("returns nothing without an assignments or grading section", () => {
+    const { text, sections } = syllabus([["description", "Course Description", "Final exam 30%"]]);
+
+    expect(parseAssessments(text, sections)).toEqual([]);
+    expect(parseAssessments(text, undefined)).toEqual([]);
+  });
+});
+
+describe("isRevised", () => {
+  const essay: Assessment = {
+    name: "Essay",
+    type: "writing",
+    count: 1,
+    weight: null,
+    pages: null,
+    length: null,
+    revisionSteps: [],
+    collaborative: false,
+  };
+
+  it("counts a revision, or a draft with feedback, as a revised assignment", () => {
+    expect(isRevised({ ...essay, revisionSteps: ["revision"] })).toBe(true);
+    expect(isRevised({ ...essay, revisionSteps: ["draft", "peer review"] })).toBe(true);
+    expect(isRevised({ ...essay, revisionSteps: ["draft", "instructor feedback"] })).toBe(true);
+  });
+
+  it("does not count a draft without feedback", () => {
+    expect(isRevised({ ...essay, revisionSteps: ["draft"] })).toBe(false);
+    expect(isRevised({ ...essay, revisionSteps: ["outline", "peer review"] })).toBe(false);
+  });
+});
@@ -0,0 +1,238 @@
+import { Assessment, AssessmentType, SyllabusSection } from "@shared/schema";
+
+// Words that identify each kind of graded work, checked in order so a lab report is lab work
+// rather than writing, and a final paper or final project is not an exam
+const TYPE_PATTERNS: [AssessmentType, RegExp][] = [
+  ["lab", /\b(lab(oratory)?s?|field\s*(work|reports?|notebooks?))\b/i],
+  ["presentation", /\b(presentations?|speech(es)?|oral\s+reports?|debates?|posters?)\b/i],
+  ["writing", /\b(essays?|papers?|reports?|writing\s+assignments?|reflections?|journals?|memos?|(book|literature)\s+reviews?|thesis|annotated\s+bibliograph(y|ies)|proposals?)\b/i],
+  ["quiz", /\bquiz(zes)?\b/i],
+  ["project", /\bprojects?\b/i],
+  ["exam", /\b(exams?|examinations?|midterms?|finals?|tests?)\b/i],
+  ["homework", /\b(homework|problem\s+sets?|assignments?|exercises?|worksheets?)\b/i],
+  ["participation", /\b(participation|attendance|engagement|discussion\s+(boards?|posts?|forums?))\b/i],
+];
+
+// Steps of a recursive writing process, by the name shown for them
+const REVISION_STEPS: [string, RegExp][] = [
+  ["proposal", /\bproposals?\b/i],
+  ["outline", /\boutlines?\b/i],
+  ["draft", /\bdrafts?\b/i],
+  ["peer review", /\bpeer[-\s](reviews?|feedback|responses?|workshops?)\b/i],
+  ["instructor feedback", /\b(instructor|teacher|professor)(['’]s)?\s+(feedback|comments)\b|\bconferences?\b/i],
+  ["revision", /\b(revis(e|ed|es|ing|ions?)|rewrit(e|es|ing|ten))\b/i],
+];
+
+const COLLABORATIVE_PATTERN = /\b(groups?|teams?|collaborative(ly)?|partners?|pairs?)\b/i;
+
+// Number words used for counts and lengths, e.g. "three essays" or "a ten-page paper"
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20,
+};
+
+const NUMBER = `\\d{1,3}|${Object.keys(NUMBER_WORDS).join("|")}`;
+const PAGES_PATTERN = new RegExp(`\\b(${NUMBER})(?:\\s*(?:-|–|to)\\s*(${NUMBER}))?[\\s-]*pages?\\b`, "i");
+const WORDS_PATTERN = /\b(\d{1,2},?\d{3}|\d{3})(?:\s*(?:-|–|to)\s*(\d{1,2},?\d{3}|\d{3}))?[\s-]*words?\b/i;
+const WEIGHT_PATTERN = /(\d{1,3}(?:\.\d+)?)\s*(?:%|percent\b)/gi;
+const POINTS_PATTERN = /(\d{1,4})\s*(?:points|pts)\b/gi;
+
+// Lengths given in words are converted to pages at this rate
+const WORDS_PER_PAGE = 250;
+
+// Longest name, in words, of a line that lists an assessment; longer lines are descriptions
+const MAX_NAME_WORDS = 6;
+
+// An assessment being built up from its line and the description that follows
+interface ParsedAssessment extends Assessment {
+  key: string;            // Name with punctuation and plurals removed, to merge the same work listed twice
+  points: number | null;  // Points, for syllabi that grade out of a point total instead of percentages
+}
+
+/**
+ * Parse the graded work of a syllabus from its assignments and grading sections
+ * @param text The extracted text of the syllabus
+ * @param sections Sections found by the segmenter
+ * @returns Assessment[] Assessments in document order, or an empty list if the syllabus has neither section
+ */
+export function parseAssessments(text: string, sections: SyllabusSection[] | undefined): Assessment[] {
+  // Headings are left out so "Grading" is not read as part of the first listing on its line
+  const sourceText = (sections || [])
+    .filter(section => section.type === "assignments" || section.type === "grading")
+    .map(section => text.substring(section.start + (section.heading?.length ?? 0), section.end).trim())
+    .join("\n\n");
+  if (!sourceText) return [];
+
+  const parsed: ParsedAssessment[] = [];
+  let current: ParsedAssessment | undefined;
+
+  for (const segment of splitSegments(sourceText)) {
+    const opened = parseListing(segment);
+    if (opened) {
+      // The same work is often listed under assignments and again in the grading breakdown
+      const existing = parsed.find(item => item.key === opened.key);
+      current = existing ? mergeAssessments(existing, opened) : opened;
+      if (!existing) parsed.push(current);
+    } else if (current) {
+      // Description of the assessment listed before it
+      addDetails(current, segment);
+    }
+  }
+
+  // Convert points to percentages when the syllabus gives no percentages
+  const totalPoints = parsed.reduce((sum, item) => sum + (item.points || 0), 0);
+  if (totalPoints > 0 && parsed.every(item => item.weight === null)) {
+    parsed.forEach(item => {
+      if (item.points) item.weight = Math.round(item.points / totalPoints * 1000) / 10;
+    });
+  }
+
+  return parsed.map(({ key, points, ...assessment }) => assessment);
+}
+
+/**
+ * Check whether an assessment goes through drafts with feedback and revision
+ * @param assessment The assessment
+ * @returns boolean True if it is revised, or drafted with peer or instructor feedback
+ */
+export function isRevised(assessment: Assessment): boolean {
+  const steps = assessment.revisionSteps;
+  return steps.includes("revision") ||
+    (steps.includes("draft") && (steps.includes("peer review") || steps.includes("instructor feedback")));
+}
+
+/**
+ * Split section text into lines, list items and sentences
+ * @param sourceText Text of the assignments and grading sections
+ * @returns string[] The non-empty segments
+ */
+function splitSegments(sourceText: string): string[] {
+  // PDFs are extracted without line breaks, so sentences and grading table cells ending in a weight also split
+  return sourceText
+    .split(/\n|[•▪●◦]|(?<=[.!?])\s+(?=[A-Z])|(?<=\d\s?%\)?)\s+(?=[A-Z])/)
+    .map(segment => segment.replace(/^\s*(?:[-*–—]|\d{1,2}[.)])\s+/, "").replace(/\s+/g, " ").trim())
+    .filter(segment => segment.length > 0);
+}
+
+/**
+ * Read a segment that lists an assessment, such as "Essay 1 (5-7 pages) 15%" or "Three lab reports"
+ * @param segment A line, list item or sentence
+ * @returns ParsedAssessment | undefined The assessment, or undefined for descriptions and other text
+ */
+function parseListing(segment: string): ParsedAssessment | undefined {
+  // Grade scales such as "A 93-100%" and totals are not assessments
+  if (/^[A-F][+\-−]?\s*[:=]?\s*\d/.test(segment) || /^(total|grade|grading)\b/i.test(segment)) return undefined;
+
+  // The name runs up to a colon, parenthesis, dash or the weight
+  const name = segment
+    .split(/\s*(?::|\(|\s[-–—]\s)|\s+(?=\d{1,3}(?:\.\d+)?\s*(?:%|percent\b)|\d{1,4}\s*(?:points|pts)\b)/i)[0]
+    .replace(/[.\s]+$/, "");
+  const wordCount = name.split(/\s+/).filter(Boolean).length;
+  if (wordCount === 0 || wordCount > MAX_NAME_WORDS) return undefined;
+
+  // A sentence with nothing after its name is a description, not a listing
+  if (name.length === segment.replace(/\s+$/, "").length && /[.!?]$/.test(segment)) return undefined;
+
+  // The last weight is the total, as in "Lab reports (8 x 2.5%) 20%"
+  const weight = Array.from(segment.matchAll(WEIGHT_PATTERN)).pop();
+  const points = Array.from(segment.matchAll(POINTS_PATTERN)).pop();
+
+  // Work of no recognized kind is only listed when it ends in its weight, as in a grading table
+  const type = classifyAssessment(name);
+  if (!type && !((weight || points) && /(?:%|percent|points|pts)\)?$/i.test(segment))) return undefined;
+
+  const assessment: ParsedAssessment = {
+    name,
+    type: type ?? classifyAssessment(segment) ?? "other",
+    count: countOf(name, segment),
+    weight: weight ? parseFloat(weight[1]) : null,
+    pages: null,
+    length: null,
+    revisionSteps: [],
+    collaborative: false,
+    key: name.toLowerCase().replace(/[^a-z0-9]+/g, " ").replace(/s\b/g, "").trim(),
+    points: points ? parseInt(points[1]) : null,
+  };
+  addDetails(assessment, segment);
+  return assessment;
+}
+
+/**
+ * Add the length, revision steps and collaboration a segment mentions to an assessment
+ * @param assessment The assessment, updated in place
+ * @param segment The listing or a sentence describing it
+ */
+function addDetails(assessment: ParsedAssessment, segment: string): void {
+  if (assessment.pages === null) {
+    const pages = PAGES_PATTERN.exec(segment);
+    const words = WORDS_PATTERN.exec(segment);
+    if (pages) {
+      assessment.pages = toNumber(pages[1]);
+      assessment.length = pages[0];
+    } else if (words) {
+      assessment.pages = Math.max(1, Math.round(parseInt(words[1].replace(",", "")) / WORDS_PER_PAGE));
+      assessment.length = words[0];
+    }
+  }
+
+  REVISION_STEPS.forEach(([step, pattern]) => {
+    if (pattern.test(segment) && !assessment.revisionSteps.includes(step)) {
+      assessment.revisionSteps.push(step);
+    }
+  });
+
+  assessment.collaborative = assessment.collaborative || COLLABORATIVE_PATTERN.test(segment);
+}
+
+/**
+ * Combine two listings of the same assessment, keeping the first value of each detail
+ * @param existing The assessment listed first, updated in place
+ * @param listed The later listing
+ * @returns ParsedAssessment The combined assessment
+ */
+function mergeAssessments(existing: ParsedAssessment, listed: ParsedAssessment): ParsedAssessment {
+  existing.count = Math.max(existing.count, listed.count);
+  existing.weight = existing.weight ?? listed.weight;
+  existing.points = existing.points ?? listed.points;
+  if (existing.pages === null) {
+    existing.pages = listed.pages;
+    existing.length = listed.length;
+  }
+  listed.revisionSteps.forEach(step => {
+    if (!existing.revisionSteps.includes(step)) existing.revisionSteps.push(step);
+  });
+  existing.collaborative = existing.collaborative || listed.collaborative;
+  return existing;
+}
+
+/**
+ * Work out what kind of graded work a name or description refers to
+ * @param description Name or text of the assessment
+ * @returns AssessmentType | undefined The first kind whose words appear, if any
+ */
+function classifyAssessment(description: string): AssessmentType | undefined {
+  return TYPE_PATTERNS.find(([, pattern]) => pattern.test(description))?.[0];
+}
+
+/**
+ * Read how many pieces of work a listing covers, e.g. "Three essays", "Quizzes (10)" or "Essays (3 x 15%)"
+ * @param name The assessment's name
+ * @param segment The whole listing
+ * @returns number The count, or 1 when none is given
+ */
+function countOf(name: string, segment: string): number {
+  const leading = new RegExp(`^(${NUMBER})\\s+(?!pages?\\b|words?\\b|%)`, "i").exec(name);
+  if (leading) return toNumber(leading[1]);
+
+  const trailing = /\((?:x\s*)?(\d{1,2})\)|\b(\d{1,2})\s*[x×]\s*\d/i.exec(segment);
+  return trailing ? parseInt(trailing[1] || trailing[2]) : 1;
+}
+
+/**
+ * Read a number written in digits or words
+ * @param value The number as written
+ * @returns number The value
+ */
+function toNumber(value: string): number {
+  return NUMBER_WORDS[value.toLowerCase()] ?? parseInt(value);
+}
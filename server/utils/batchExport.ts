@@ -0,0 +1,33 @@
+import { BatchDetail } from "@shared/schema";
+
+// Columns of the batch export, one row per file
+const HEADER = ["File", "Status", "Course Name", "Course Code", "Best Fit", "Approved Requirements", "Error", "Analysis ID"];
+
+/**
+ * Export the outcome of every file of a batch as CSV
+ * @param batch The batch and its files
+ * @returns string CSV text with a header row
+ */
+export function batchToCsv(batch: BatchDetail): string {
+  const rows = batch.files.map(file => [
+    file.fileName,
+    file.status,
+    file.courseName ?? "",
+    file.courseCode ?? "",
+    file.bestFit ?? "",
+    file.approvedRequirements.join("; "),
+    file.error ?? "",
+    file.analysisId?.toString() ?? "",
+  ]);
+
+  return [HEADER, ...rows].map(row => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Quote a CSV field, doubling any quotes inside it
+ * @param value The field value
+ * @returns string The quoted field
+ */
+function csvField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
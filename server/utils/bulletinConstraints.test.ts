@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { evaluateBulletinConstraints, parseBulletinConstraints } from "./bulletinConstraints";
+
+describe("parseBulletinConstraints", () => {
+  it("reads every minimum course phrase in the bulletin text", () => {
+    const constraints = parseBulletinConstraints(
+      "Students must complete MATH 1312 or higher. Lab sections require CHEM1411 or above."
+    );
+
+    expect(constraints).toEqual([
+      { description: "MATH 1312 or higher", subjectPrefixes: ["MATH"], minCourseNumber: 1312 },
+      { description: "CHEM1411 or above", subjectPrefixes: ["CHEM"], minCourseNumber: 1411 },
+    ]);
+  });
+
+  it("returns no constraints for text without a recognized phrase", () => {
+    expect(parseBulletinConstraints("Any course approved by the department.")).toEqual([]);
+  });
+
+  it("can be parsed again after a previous call", () => {
+    parseBulletinConstraints("MATH 1312 or higher");
+    expect(parseBulletinConstraints("MATH 1312 or higher")).toHaveLength(1);
+  });
+});
+
+describe("evaluateBulletinConstraints", () => {
+  const [minimumMath] = parseBulletinConstraints("MATH 1312 or higher");
+
+  it("passes courses at or above the minimum and normalizes the code", () => {
+    expect(evaluateBulletinConstraints([minimumMath], "math-1312")).toEqual([
+      { description: "MATH 1312 or higher", status: "pass", courseCode: "MATH 1312" },
+    ]);
+    expect(evaluateBulletinConstraints([minimumMath], "MATH 2413")[0].status).toBe("pass");
+  });
+
+  it("fails courses below the minimum or in another subject", () => {
+    expect(evaluateBulletinConstraints([minimumMath], "MATH 1301")[0].status).toBe("fail");
+    expect(evaluateBulletinConstraints([minimumMath], "PHIL 2305")[0].status).toBe("fail");
+  });
+
+  it("reports an unrecognized course code as unknown", () => {
+    expect(evaluateBulletinConstraints([minimumMath], "Calculus I")[0]).toEqual({
+      description: "MATH 1312 or higher",
+      status: "unknown",
+      courseCode: "Calculus I",
+    });
+  });
+
+  it("only passes listed courses for a constraint without a subject or minimum", () => {
+    const constraint = { description: "One of the listed courses", courses: ["HIST 1301", "HIST 1302"] };
+
+    expect(evaluateBulletinConstraints([constraint], "HIST 1302")[0].status).toBe("pass");
+    expect(evaluateBulletinConstraints([constraint], "HIST 2301")[0].status).toBe("fail");
+  });
+});
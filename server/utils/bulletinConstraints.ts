@@ -0,0 +1,103 @@
+import { ApprovedRequirement, BulletinCheck, BulletinConstraint, RejectedRequirement } from "@shared/schema";
+
+// A requirement as seen by the bulletin checks
+interface ConstrainedRequirement {
+  name: string;
+  bulletinConstraints: BulletinConstraint[];
+}
+
+// Course codes such as "MATH 1312", "math1312" or "PHIL-2305H"
+const COURSE_CODE_REGEX = /^\s*([A-Za-z]{2,4})\s*-?\s*(\d{3,4})[A-Za-z]?\s*$/;
+
+// Bulletin phrases such as "MATH 1312 or higher"
+const MIN_COURSE_REGEX = /\b([A-Z]{2,4})\s*(\d{3,4})\s+or\s+(?:higher|above)\b/g;
+
+/**
+ * Check a course code against the bulletin constraints of a requirement
+ * @param constraints The bulletin constraints of the requirement
+ * @param courseCode The course code found in or supplied for the syllabus
+ * @returns BulletinCheck[] One check per constraint
+ */
+export function evaluateBulletinConstraints(constraints: BulletinConstraint[], courseCode: string): BulletinCheck[] {
+  const parsed = parseCourseCode(courseCode);
+
+  return constraints.map(constraint => ({
+    description: constraint.description,
+    status: parsed ? (satisfiesConstraint(constraint, parsed) ? "pass" : "fail") : "unknown",
+    courseCode: parsed ? `${parsed.subject} ${parsed.number}` : courseCode,
+  }));
+}
+
+/**
+ * Attach bulletin checks to the analyzed requirements that have bulletin constraints
+ * @param results Approved and rejected requirements returned by an analyzer
+ * @param requirements The catalog requirements that were analyzed
+ * @param courseCode The course code found in or supplied for the syllabus
+ */
+export function attachBulletinChecks(
+  results: (ApprovedRequirement | RejectedRequirement)[],
+  requirements: ConstrainedRequirement[],
+  courseCode: string
+): void {
+  for (const result of results) {
+    const constraints = requirements.find(req => req.name === result.name)?.bulletinConstraints || [];
+    if (constraints.length > 0) {
+      result.bulletinChecks = evaluateBulletinConstraints(constraints, courseCode);
+    }
+  }
+}
+
+/**
+ * Turn the bulletin text of the GE SLO document into structured constraints
+ * @param bulletinText The "Bulletin-Related Requirements" section text
+ * @returns BulletinConstraint[] Constraints for the phrases that could be recognized
+ */
+export function parseBulletinConstraints(bulletinText: string): BulletinConstraint[] {
+  const constraints: BulletinConstraint[] = [];
+
+  let match;
+  MIN_COURSE_REGEX.lastIndex = 0;
+  while ((match = MIN_COURSE_REGEX.exec(bulletinText)) !== null) {
+    constraints.push({
+      description: match[0],
+      subjectPrefixes: [match[1]],
+      minCourseNumber: parseInt(match[2]),
+    });
+  }
+
+  return constraints;
+}
+
+/**
+ * Split a course code into its subject and number
+ * @param courseCode The course code to parse
+ * @returns The uppercase subject and the course number, or undefined if the code is not recognized
+ */
+function parseCourseCode(courseCode: string): { subject: string; number: number } | undefined {
+  const match = courseCode.match(COURSE_CODE_REGEX);
+  if (!match) return undefined;
+  return { subject: match[1].toUpperCase(), number: parseInt(match[2]) };
+}
+
+/**
+ * Check a parsed course code against a single constraint
+ * @param constraint The bulletin constraint
+ * @param course The parsed course code
+ * @returns boolean True if the course is listed explicitly or meets the subject and number conditions
+ */
+function satisfiesConstraint(constraint: BulletinConstraint, course: { subject: string; number: number }): boolean {
+  const listed = (constraint.courses || []).some(listedCourse => {
+    const parsed = parseCourseCode(listedCourse);
+    return parsed?.subject === course.subject && parsed.number === course.number;
+  });
+  if (listed) return true;
+
+  // A constraint with only an explicit course list is not met by other courses
+  if (!constraint.subjectPrefixes && constraint.minCourseNumber === undefined) return false;
+
+  const subjectMatches = !constraint.subjectPrefixes ||
+    constraint.subjectPrefixes.some(prefix => prefix.toUpperCase() === course.subject);
+  const numberMatches = constraint.minCourseNumber === undefined || course.number >= constraint.minCourseNumber;
+
+  return subjectMatches && numberMatches;
+}
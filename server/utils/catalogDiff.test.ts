@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { RequirementDefinition } from "@shared/schema";
+import { diffCatalogs } from "./catalogDiff";
+
+/**
+ * Build a requirement with the fields the diff compares
+ * @param name Requirement name
+ * @param overrides Fields to change from the defaults
+ * @returns RequirementDefinition The requirement
+ */
+function requirement(name: string, overrides: Partial<RequirementDefinition> = {}): RequirementDefinition {
+  return {
+    name,
+    description: `${name} courses`,
+    category: "core",
+    slos: ["Analyze sources"],
+    keywords: ["analysis"],
+    requiredElements: ["Readings"],
+    ...overrides,
+  };
+}
+
+describe("diffCatalogs", () => {
+  it("sorts requirements into added, removed, changed and unchanged by name", () => {
+    const base = [requirement("Arts"), requirement("History"), requirement("Science")];
+    const compared = [
+      requirement("Arts"),
+      requirement("History", { slos: ["Analyze sources", "Explain change over time"] }),
+      requirement("Writing"),
+    ];
+
+    const diff = diffCatalogs(base, compared);
+
+    expect(diff.added).toEqual(["Writing"]);
+    expect(diff.removed).toEqual(["Science"]);
+    expect(diff.unchanged).toEqual(["Arts"]);
+    expect(diff.changed).toEqual([{
+      name: "History",
+      changes: [{
+        field: "slos",
+        before: ["Analyze sources"],
+        after: ["Analyze sources", "Explain change over time"],
+      }],
+    }]);
+  });
+
+  it("reports threshold changes", () => {
+    const diff = diffCatalogs(
+      [requirement("Arts", { elementThreshold: 0.6 })],
+      [requirement("Arts", { elementThreshold: 0.75 })]
+    );
+
+    expect(diff.changed[0].changes).toEqual([{ field: "elementThreshold", before: 0.6, after: 0.75 }]);
+  });
+});
@@ -0,0 +1,55 @@
+import { CatalogDiff, RequirementDefinition, RequirementFieldChange } from "@shared/schema";
+
+// Requirement fields compared between catalog versions
+const COMPARED_FIELDS: (keyof RequirementDefinition)[] = [
+  "description",
+  "category",
+  "slos",
+  "keywords",
+  "requiredElements",
+  "color",
+  "rules",
+  "bulletinConstraints",
+  "elementThreshold",
+  "sloThreshold",
+];
+
+/**
+ * Compare two requirement catalogs by requirement name
+ * @param baseRequirements Requirements of the current catalog
+ * @param comparedRequirements Requirements of the catalog under review
+ * @returns CatalogDiff Added, removed, changed and unchanged requirements
+ */
+export function diffCatalogs(
+  baseRequirements: RequirementDefinition[],
+  comparedRequirements: RequirementDefinition[]
+): CatalogDiff {
+  const baseByName = new Map(baseRequirements.map(req => [req.name, req]));
+  const comparedByName = new Map(comparedRequirements.map(req => [req.name, req]));
+
+  const diff: CatalogDiff = { added: [], removed: [], changed: [], unchanged: [] };
+
+  for (const compared of comparedRequirements) {
+    const base = baseByName.get(compared.name);
+    if (!base) {
+      diff.added.push(compared.name);
+      continue;
+    }
+
+    const changes: RequirementFieldChange[] = COMPARED_FIELDS
+      .filter(field => JSON.stringify(base[field] ?? null) !== JSON.stringify(compared[field] ?? null))
+      .map(field => ({ field, before: base[field], after: compared[field] }));
+
+    if (changes.length > 0) {
+      diff.changed.push({ name: compared.name, changes });
+    } else {
+      diff.unchanged.push(compared.name);
+    }
+  }
+
+  diff.removed = baseRequirements
+    .filter(req => !comparedByName.has(req.name))
+    .map(req => req.name);
+
+  return diff;
+}
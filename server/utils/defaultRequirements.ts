@@ -0,0 +1,451 @@
+import { RequirementDefinition } from "@shared/schema";
+
+// Name given to the catalog version seeded from the defaults below
+export const defaultCatalogVersionName = "2024-25";
+
+// Default Gen Ed requirements based on the PDF, used to seed the first catalog version
+export const defaultGenEdRequirements: RequirementDefinition[] = [
+  {
+    name: "Freshmen Seminar",
+    category: "foundational",
+    color: "sky",
+    description: "Students will join a community of learners and actively engage in academic and co-curricular exploration, developing critical thinking skills by confronting questions of social justice through the course materials and co-curricular experiences.",
+    slos: [
+      "Identify assumptions rooted in a variety of perspectives.",
+      "Interpret and evaluate issues, evidence, and sources.",
+      "Communicate effectively about multiple perspectives.",
+      "Reflect on and apply knowledge developed in the classroom and co-curricular experiences."
+    ],
+    keywords: ["freshmen", "first-year", "seminar", "co-curricular", "social justice", "perspectives", "reflection"],
+    requiredElements: [
+      "Course restricted to first-year students",
+      "Co-curricular experiences",
+      "Questions of social justice",
+      "Reflection on classroom and co-curricular learning"
+    ],
+    rules: [
+      {
+        type: "requiredTerms",
+        description: "The course must be a seminar for first-year (freshmen) students.",
+        terms: ["freshmen", "freshman", "first-year", "first year"],
+        match: "any",
+        rejectionMessage: "Course must be a seminar for first-year (freshmen) students"
+      },
+      {
+        type: "requiredTerms",
+        description: "Students must engage in co-curricular experiences (events, service, or activities outside the classroom) and reflect on them.",
+        terms: ["co-curricular", "cocurricular"],
+        match: "any",
+        rejectionMessage: "Course must include co-curricular experiences"
+      }
+    ]
+  },
+  {
+    name: "Writing 1",
+    category: "foundational",
+    color: "orange",
+    description: "Students read, understand, and use a variety of texts to support their writing goals, developing their writing through successive drafts and revisions.",
+    slos: [
+      "Read, understand, and use a variety of text to support various writing goals.",
+      "Identify and demonstrate an awareness of the writing process through successive drafts and revisions.",
+      "Analyze and respond to various writing situations and demonstrate appropriate rhetorical and writing choices.",
+      "Demonstrate an understanding of audience and genre conventions within their writing.",
+      "Analyze and respond to substantive issues in their writing that show global improvement through substantial and successive revision."
+    ],
+    keywords: ["writing", "composition", "drafts", "revision", "rhetorical", "audience", "genre", "essay"],
+    requiredElements: [
+      "Successive drafts and revisions",
+      "Varied writing situations",
+      "Audience and genre conventions",
+      "Reading texts to support writing"
+    ],
+    rules: [
+      {
+        type: "prerequisite",
+        description: "Writing 1 starts the writing sequence, so the course cannot require Writing 1 or first-year composition.",
+        courses: ["Writing 1", "Writing I", "first-year writing", "first-year composition", "composition"],
+        required: false,
+        rejectionMessage: "Writing 1 cannot have Writing 1 or first-year composition as a prerequisite"
+      },
+      {
+        type: "requiredTerms",
+        description: "Writing assignments must go through successive drafts and revisions.",
+        terms: ["draft", "revis"],
+        match: "all",
+        rejectionMessage: "Writing assignments must go through successive drafts and revisions"
+      }
+    ]
+  },
+  {
+    name: "Writing 2",
+    category: "foundational",
+    color: "fuchsia",
+    description: "Students analyze how different discourse communities produce research and compose inquiry-based writing for academic and non-academic audiences. Writing 1 is a prerequisite for Writing 2.",
+    slos: [
+      "Analyze and understand how and why different discourse communities produce research using various conventions.",
+      "Find and use appropriate resources to support inquiry-based research.",
+      "Adapt research practices and compose successive and appropriate writing tasks to varied rhetorical situations, including discipline-specific audiences and purposes.",
+      "Understand and respond to substantive issues in their writing that show global improvement through substantial and successive revision.",
+      "Analyze and produce appropriate texts for a non-academic audience to demonstrate genre awareness through rhetorical conventions."
+    ],
+    keywords: ["research", "writing", "discourse communities", "inquiry", "sources", "revision", "non-academic audience", "genre"],
+    requiredElements: [
+      "Writing 1 prerequisite",
+      "Inquiry-based research",
+      "Successive drafts and revisions",
+      "Writing for a non-academic audience"
+    ],
+    rules: [
+      {
+        type: "prerequisite",
+        description: "Writing 1 is a prerequisite for Writing 2.",
+        courses: ["Writing 1", "Writing I", "first-year writing", "first-year composition", "composition"],
+        required: true,
+        rejectionMessage: "Writing 1 must be listed as a prerequisite for Writing 2"
+      },
+      {
+        type: "requiredTerms",
+        description: "Writing assignments must go through successive drafts and revisions.",
+        terms: ["draft", "revis"],
+        match: "all",
+        rejectionMessage: "Writing assignments must go through successive drafts and revisions"
+      }
+    ]
+  },
+  {
+    name: "Oral Communication",
+    category: "foundational",
+    color: "green",
+    description: "Students develop professional speech structure and delivery techniques. Every class must require at least 3 major presentations.",
+    slos: [
+      "Employ a professional speech structure that reinforces the central message of the presentation with assistance from a well-constructed outline.",
+      "Communicate a central message effectively through insightful word choice and creative selection of appropriate rhetorical devices.",
+      "Deploy a variety of appropriate delivery tools to engage the audience.",
+      "Offer varied and relevant evidence to support their credibility."
+    ],
+    keywords: ["presentation", "speech", "oral", "public speaking", "delivery", "outline", "audience", "rhetorical"],
+    requiredElements: [
+      "At least three graded major presentations",
+      "Speech outlines",
+      "Delivery techniques",
+      "Evidence supporting credibility"
+    ],
+    rules: [
+      {
+        type: "minAssessmentCount",
+        description: "The course must require major presentations or speeches that are graded; informal class participation or discussion does not count.",
+        assessmentTerms: ["presentation", "speech"],
+        minCount: 3,
+        rejectionMessage: "Course must require at least 3 graded major presentations or speeches"
+      }
+    ]
+  },
+  {
+    name: "Quantitative Reasoning",
+    category: "core",
+    color: "blue",
+    description: "Students must use mathematical, statistical, and/or computational methods to analyze and solve problems involving quantitative information.",
+    slos: [
+      "Interpret quantitative information.",
+      "Use quantitative methods to solve problems.",
+      "Develop conclusions based on quantitative analysis."
+    ],
+    keywords: ["mathematical", "statistical", "computational", "quantitative", "analysis", "problem-solving", "data"],
+    requiredElements: [
+      "Mathematical or statistical methods",
+      "Quantitative problem-solving",
+      "Data analysis components",
+      "Drawing conclusions from analysis"
+    ],
+    bulletinConstraints: [
+      {
+        description: "MATH 1312 or higher",
+        subjectPrefixes: ["MATH"],
+        minCourseNumber: 1312
+      }
+    ]
+  },
+  {
+    name: "Modern Language",
+    category: "core",
+    color: "emerald",
+    description: "Students learn to interpret information in authentic messages and informational texts using listening, reading, and viewing strategies.",
+    slos: [
+      "Interpret information in authentic messages and informational texts using listening, reading, and viewing strategies.",
+      "Interact with others using culturally appropriate language and gestures.",
+      "Present meaningful information, concepts and viewpoints.",
+      "Compare social practices from their own culture relative to those from another culture."
+    ],
+    keywords: ["language", "authentic messages", "culturally appropriate", "social practices", "foreign language", "communication"],
+    requiredElements: [
+      "Language instruction",
+      "Cultural components",
+      "Communication practice",
+      "Authentic language materials"
+    ],
+    rules: [
+      {
+        type: "languageOfInstruction",
+        description: "Students must actively learn to communicate (speaking, writing, reading) in a non-English language, with assignments, exercises, or assessments conducted in that language.",
+        languages: ["Spanish", "French", "German", "Italian", "Portuguese", "Chinese", "Mandarin", "Japanese", "Korean", "Arabic", "Russian", "Vietnamese", "American Sign Language"],
+        rejectionMessage: "Course must explicitly focus on teaching students to communicate in a non-English language"
+      }
+    ]
+  },
+  {
+    name: "Natural Sciences",
+    category: "core",
+    color: "teal",
+    description: "Students learn scientific principles and methods to understand the natural world.",
+    slos: [
+      "Differentiate among facts, laws, theories, and hypotheses in the sciences.",
+      "Apply scientific methods to investigate the natural world.",
+      "Analyze qualitative and/or quantitative data using scientific reasoning.",
+      "Evaluate claims using reliable scientific evidence."
+    ],
+    keywords: ["scientific methods", "natural world", "investigation", "lab work", "hypothesis", "evidence", "data"],
+    requiredElements: [
+      "Scientific method application",
+      "Data collection and analysis",
+      "Hypothesis testing",
+      "Laboratory or field components",
+      "Evidence-based reasoning"
+    ],
+    rules: [
+      {
+        type: "minAssessmentCount",
+        description: "The course must include a graded laboratory or field component, such as lab reports, lab practicals, or field work.",
+        assessmentTerms: ["lab report", "lab", "laboratory", "field work"],
+        minCount: 1,
+        assessmentTypes: ["lab"],
+        rejectionMessage: "Course must include a graded laboratory or field component"
+      }
+    ]
+  },
+  {
+    name: "Exploring Artistic Works",
+    category: "core",
+    color: "purple",
+    description: "Students evaluate and engage with artistic works in their cultural, social, and aesthetic contexts.",
+    slos: [
+      "Identify elements of artistic works that convey ideas, beliefs, and values of various cultures in different historical periods.",
+      "Analyze artistic works using methodologies of interpretation.",
+      "Create informed interpretations of artistic works using appropriate critical vocabulary.",
+      "Communicate personal reactions to artistic works within informed interpretations."
+    ],
+    keywords: ["artistic", "aesthetic", "cultural context", "interpretation", "creative expression", "analysis", "evaluation"],
+    requiredElements: [
+      "Analysis of artistic works",
+      "Cultural context examination",
+      "Critical interpretation methods",
+      "Artistic expression evaluation",
+      "Critical vocabulary development"
+    ]
+  },
+  {
+    name: "Studies in Theology and Religion",
+    category: "core",
+    color: "yellow",
+    description: "Students engage in critical reflection on religious texts, doctrines, and practices.",
+    slos: [
+      "Describe and analyze the content of religious texts and how they function in religious communities.",
+      "Describe, analyze, and compare theological perspectives including Catholic perspectives.",
+      "Analyze how religious communities interpret, interact with, and transform the world around them.",
+      "Integrate theological, religious, and interdisciplinary perspectives to analyze experiences and issues."
+    ],
+    keywords: ["theology", "religion", "Catholic", "religious texts", "doctrines", "practices", "interdisciplinary"],
+    requiredElements: [
+      "Religious text analysis",
+      "Theological perspectives comparison",
+      "Catholic tradition examination",
+      "Religious community studies",
+      "Interdisciplinary approaches"
+    ]
+  },
+  {
+    name: "Creativity and Making",
+    category: "core",
+    color: "rose",
+    description: "Students develop creative thinking and making skills through iterative processes.",
+    slos: [
+      "Generate multiple approaches to problems through creative thinking.",
+      "Design a process for iterative creative problem-solving.",
+      "Produce a creative work through an iterative, reflective process.",
+      "Evaluate the way their creative work both influences and is influenced by others."
+    ],
+    keywords: ["creative", "making", "iterative", "design", "reflection", "problem-solving", "innovation"],
+    requiredElements: [
+      "Creative process development",
+      "Iterative making practices",
+      "Reflective evaluation",
+      "Collaborative creation",
+      "Innovative problem-solving"
+    ],
+    rules: [
+      {
+        type: "minContentProportion",
+        description: "More than half of the course content, schedule, and coursework must be dedicated to creative writing, theater, design, or visual arts.",
+        proportion: 0.5,
+        activityTypes: ["creative"],
+        indicators: [
+          "creative writing", "theater", "design", "visual art", "studio", "workshop", "portfolio",
+          "exhibition", "performance", "artistic", "sculpture", "painting", "drawing", "film",
+          "photography", "dance", "music composition", "creative project"
+        ],
+        minIndicatorMatches: 10,
+        rejectionMessage: "More than 50% of the course must be dedicated to creative writing, theater, design, or visual arts"
+      }
+    ]
+  },
+  {
+    name: "Diverse American Perspectives",
+    category: "core",
+    color: "amber",
+    description: "Students examine diverse cultures and perspectives in the American experience.",
+    slos: [
+      "Articulate the distinctive experiences and perspectives of at least one group marginalized due to racial, gender, sexual, or religious identity.",
+      "Identify intersectionality, historical context, and systems of power in American society.",
+      "Analyze how systemic inequality affects personal experiences and social arrangements.",
+      "Evaluate how diversity and inclusion enhance society and American democracy."
+    ],
+    keywords: ["diversity", "American", "perspectives", "marginalized", "intersectionality", "race", "gender", "inequality"],
+    requiredElements: [
+      "Marginalized group experiences",
+      "Systems of power analysis",
+      "Intersectionality examination",
+      "Diversity and inclusion concepts",
+      "Historical context of inequality"
+    ]
+  },
+  {
+    name: "Global Perspectives",
+    category: "core",
+    color: "indigo",
+    description: "Students analyze global issues and cultural diversity beyond the American experience.",
+    slos: [
+      "Analyze transnational cultural, economic, or political interactions.",
+      "Describe and analyze cultural diversity across societies outside the United States.",
+      "Analyze the cultural, historical, and/or political dimensions of regional or global issues.",
+      "Evaluate how global issues and cultural diversity affect individuals and communities."
+    ],
+    keywords: ["global", "transnational", "international", "cultural diversity", "world perspectives", "cross-cultural", "global issues"],
+    requiredElements: [
+      "Non-U.S. cultural analysis",
+      "International or global issues",
+      "Cross-cultural comparison",
+      "Transnational interactions",
+      "Global diversity examination"
+    ]
+  },
+  {
+    name: "Ethics",
+    category: "core",
+    color: "cyan",
+    description: "Students examine ethical theories and apply ethical reasoning to complex issues.",
+    slos: [
+      "Identify and explain philosophical theories of ethics.",
+      "Analyze ethical dimensions of contemporary issues.",
+      "Apply moral reasoning to complex situations.",
+      "Articulate and defend ethical positions using philosophical reasoning."
+    ],
+    keywords: ["ethics", "moral", "philosophical", "values", "reasoning", "ethical theory", "moral judgment"],
+    requiredElements: [
+      "Ethical theory examination",
+      "Moral reasoning application",
+      "Contemporary ethical issues",
+      "Philosophical analysis",
+      "Values evaluation"
+    ],
+    rules: [
+      {
+        type: "coursePrefix",
+        description: "The course must be primarily a philosophy course focused on philosophical ethics, taught in a philosophy department.",
+        prefixes: ["PHIL"],
+        rejectionMessage: "Course must be primarily a philosophy course taught in a philosophy department"
+      }
+    ]
+  },
+  {
+    name: "Writing Rich Mission Marker",
+    category: "mission_marker",
+    color: "lime",
+    sloThreshold: 1,  // Every SLO must be addressed
+    description: "Students develop advanced writing skills through substantial discipline-specific writing.",
+    slos: [
+      "Write discipline-specific texts for multiple purposes and audiences.",
+      "Incorporate appropriate conventions, genre expectations, and discipline-specific vocabulary.",
+      "Integrate relevant evidence and sources with proper citation.",
+      "Implement a recursive writing process involving drafting, feedback, and revision."
+    ],
+    keywords: ["writing", "discipline-specific", "recursive", "revision", "genres", "conventions", "citation"],
+    requiredElements: [
+      "Multiple substantial writing assignments",
+      "Discipline-specific writing conventions",
+      "Recursive writing process",
+      "Feedback and revision cycles",
+      "Source integration and citation"
+    ],
+    rules: [
+      {
+        type: "minAssessmentCount",
+        description: "The course must require multiple substantial writing assignments of at least 5 pages each; short responses and discussion posts do not count.",
+        assessmentTerms: ["essay", "paper", "writing assignment"],
+        minCount: 2,
+        assessmentTypes: ["writing"],
+        minPages: 5,
+        rejectionMessage: "Course must require at least 2 substantial writing assignments of 5 or more pages"
+      },
+      {
+        type: "minAssessmentCount",
+        description: "At least one writing assignment must go through a recursive process of drafting, feedback, and revision.",
+        assessmentTerms: ["draft", "revision"],
+        minCount: 1,
+        assessmentTypes: ["writing"],
+        requiresRevision: true,
+        rejectionMessage: "Course must include a writing assignment that is drafted and revised after feedback"
+      }
+    ]
+  },
+  {
+    name: "Social Identities Mission Marker",
+    category: "mission_marker",
+    color: "pink",
+    sloThreshold: 0.25,  // Students do ONE of the following SLOs
+    description: "Students analyze how intersections of social identities influence individual experiences and perspectives.",
+    slos: [
+      "Express ways in which the intersection of social identities influence individual life experiences and perspectives.",
+      "Integrate and apply course content about underrepresented cultures in interdisciplinary contexts.",
+      "Articulate awareness of central historical and present diversity issues.",
+      "Demonstrate knowledge of the history, customs, worldviews, and cultural markers of minority groups."
+    ],
+    keywords: ["social identities", "intersection", "SOGI", "race", "ethnicity", "class", "religion", "underrepresented"],
+    requiredElements: [
+      "Intersectionality analysis",
+      "Underrepresented cultures study",
+      "Historical context of diversity issues",
+      "Minority group cultural examination",
+      "Social identity reflection"
+    ]
+  },
+  {
+    name: "Experiential Learning for Social Justice",
+    category: "mission_marker",
+    color: "violet",
+    sloThreshold: 1,  // Every SLO must be addressed
+    description: "Students engage in community-based experiences focused on social justice issues.",
+    slos: [
+      "Apply academic knowledge and skills through community-based social justice work.",
+      "Analyze societal challenges and social justice issues through experiential learning.",
+      "Reflect on how community-based work shapes understanding of course material and personal values.",
+      "Evaluate the relationship between experiential learning and liberal arts education."
+    ],
+    keywords: ["experiential", "social justice", "community-based", "service learning", "reflection", "societal challenges", "community engagement"],
+    requiredElements: [
+      "Community-based service component",
+      "Social justice focus",
+      "Reflective practice",
+      "Academic integration with service",
+      "Structured community engagement"
+    ]
+  }
+];
@@ -1,11 +1,29 @@
 import fs from "fs";
 import { promisify } from "util";
 import mammoth from "mammoth";
-import { PDFExtract } from 'pdf.js-extract';
+import { PDFExtract, PDFExtractText } from 'pdf.js-extract';
 
 const readFile = promisify(fs.readFile);
 const pdfExtract = new PDFExtract();
 
+// PDF text this much larger than the page's body text is taken to be a heading
+const HEADING_SIZE_RATIO = 1.2;
+
+// Headings are short; longer runs of large text are treated as body text
+const MAX_HEADING_LENGTH = 80;
+
+// A heading found from the document's layout; offsets index into the extracted text
+export interface LayoutHeading {
+  start: number;
+  end: number;
+}
+
+// Extracted text with the layout cues the section segmenter uses
+export interface ExtractedDocument {
+  text: string;
+  headings: LayoutHeading[];  // Lines set as headings, in larger type or bold
+}
+
 /**
  * Extract text from a document based on its file type
  * @param filePath Path to the document file
@@ -13,6 +31,17 @@ const pdfExtract = new PDFExtract();
  * @returns Promise<string> Extracted text
  */
 export async function extractTextFromDocument(filePath: string, fileType: string): Promise<string> {
+  const document = await extractDocument(filePath, fileType);
+  return document.text;
+}
+
+/**
+ * Extract text and heading positions from a document based on its file type
+ * @param filePath Path to the document file
+ * @param fileType File extension (.pdf, .doc, .docx)
+ * @returns Promise<ExtractedDocument> Extracted text and headings
+ */
+export async function extractDocument(filePath: string, fileType: string): Promise<ExtractedDocument> {
   try {
     switch (fileType.toLowerCase()) {
       case ".pdf":
@@ -32,9 +61,9 @@ export async function extractTextFromDocument(filePath: string, fileType: string
 /**
  * Extract text from a PDF document
  * @param filePath Path to the PDF file
- * @returns Promise<string> Extracted text
+ * @returns Promise<ExtractedDocument> Extracted text, with lines in larger type as headings
  */
-async function extractTextFromPDF(filePath: string): Promise<string> {
+async function extractTextFromPDF(filePath: string): Promise<ExtractedDocument> {
   try {
     console.log(`Extracting text from PDF: ${filePath}`);
     const pdfData = await pdfExtract.extract(filePath, {});
@@ -43,35 +72,119 @@ async function extractTextFromPDF(filePath: string): Promise<string> {
     
     // Combine text from all pages with better handling
     let fullText = '';
+    const headings: LayoutHeading[] = [];
     for (let i = 0; i < pdfData.pages.length; i++) {
       const page = pdfData.pages[i];
       const pageText = page.content.map(item => item.str).join(' ');
+      headings.push(...findLargeTextLines(page.content, fullText.length));
       fullText += pageText + '\n\n';
       
       console.log(`Extracted ${pageText.length} characters from page ${i+1}`);
     }
       
     console.log(`Total extracted text length: ${fullText.length} characters`);
-    return fullText;
+    return { text: fullText, headings };
   } catch (error) {
     console.error("Error extracting text from PDF:", error);
     
     // If extraction fails, return an informative message
-    return "PDF text extraction failed. Please try a different file format.";
+    return { text: "PDF text extraction failed. Please try a different file format.", headings: [] };
   }
 }
 
+/**
+ * Find the lines of a PDF page set in larger type than its body text
+ * @param items Text items of the page, in reading order
+ * @param pageOffset Offset of the page in the extracted text
+ * @returns LayoutHeading[] The lines, as offsets into the extracted text
+ */
+function findLargeTextLines(items: PDFExtractText[], pageOffset: number): LayoutHeading[] {
+  // The body size is the size most of the page's characters are set in
+  const charactersBySize = new Map<number, number>();
+  items.forEach(item => {
+    const size = Math.round(item.height);
+    charactersBySize.set(size, (charactersBySize.get(size) || 0) + item.str.trim().length);
+  });
+  const bodySize = Array.from(charactersBySize.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+  if (bodySize <= 0) return [];
+
+  // Items are joined with single spaces, so offsets follow from their lengths
+  const headings: LayoutHeading[] = [];
+  let offset = pageOffset;
+  let previousY: number | undefined;
+  let current: LayoutHeading | undefined;
+
+  for (const item of items) {
+    if (item.str.trim()) {
+      const startsLine = previousY === undefined || Math.abs(item.y - previousY) > 1;
+      if (item.height < bodySize * HEADING_SIZE_RATIO) {
+        current = undefined;
+      } else if (current && !startsLine) {
+        current.end = offset + item.str.length;
+      } else if (startsLine) {
+        current = { start: offset, end: offset + item.str.length };
+        headings.push(current);
+      }
+      previousY = item.y;
+    }
+    offset += item.str.length + 1;
+  }
+
+  return headings.filter(heading => heading.end - heading.start <= MAX_HEADING_LENGTH);
+}
+
 /**
  * Extract text from a DOCX document
  * @param filePath Path to the DOCX file
- * @returns Promise<string> Extracted text
+ * @returns Promise<ExtractedDocument> Extracted text, with heading and all-bold paragraphs as headings
  */
-async function extractTextFromDOCX(filePath: string): Promise<string> {
+async function extractTextFromDOCX(filePath: string): Promise<ExtractedDocument> {
   try {
     const result = await mammoth.extractRawText({ path: filePath });
-    return result.value;
+    const html = await mammoth.convertToHtml({ path: filePath });
+    return { text: result.value, headings: locateHeadings(result.value, html.value) };
   } catch (error) {
     console.error("Error extracting text from DOCX:", error);
     throw new Error(`Failed to extract text from DOCX: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
+
+/**
+ * Find the headings of a Word document's HTML rendering in its raw text
+ * @param text The raw text of the document
+ * @param html The HTML rendering of the document
+ * @returns LayoutHeading[] Heading styles and paragraphs set entirely in bold, as offsets into the text
+ */
+function locateHeadings(text: string, html: string): LayoutHeading[] {
+  const headings: LayoutHeading[] = [];
+  const pattern = /<h[1-6][^>]*>(.*?)<\/h[1-6]>|<p[^>]*><strong>(.*?)<\/strong><\/p>/g;
+  let searchFrom = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html)) !== null) {
+    const heading = decodeEntities((match[1] ?? match[2]).replace(/<[^>]+>/g, "")).trim();
+    if (!heading || heading.length > MAX_HEADING_LENGTH) continue;
+
+    // Headings appear in the text in document order
+    const start = text.indexOf(heading, searchFrom);
+    if (start < 0) continue;
+    headings.push({ start, end: start + heading.length });
+    searchFrom = start + heading.length;
+  }
+
+  return headings;
+}
+
+/**
+ * Decode the HTML entities mammoth escapes
+ * @param value HTML text without tags
+ * @returns string Plain text
+ */
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
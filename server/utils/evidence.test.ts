@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { findKeywordEvidence, locateQuotes } from "./evidence";
+
+const content = "Course Goals\nStudents will  Analyze primary\nsources from the period.\nWeekly reading responses are due on Fridays.";
+
+describe("locateQuotes", () => {
+  it("returns the offsets of a quote found as written", () => {
+    const [excerpt] = locateQuotes(content, ["reading responses"]);
+
+    expect(excerpt.text).toBe("reading responses");
+    expect(content.substring(excerpt.start, excerpt.end)).toBe("reading responses");
+  });
+
+  it("finds quotes that differ in case and whitespace and returns the original text", () => {
+    const [excerpt] = locateQuotes(content, ["analyze primary sources"]);
+
+    expect(excerpt.text).toBe("Analyze primary\nsources");
+    expect(content.substring(excerpt.start, excerpt.end)).toBe(excerpt.text);
+  });
+
+  it("drops quotes that are not in the content and values that are not strings", () => {
+    expect(locateQuotes(content, ["a quote the model made up", 42, null, "  "])).toEqual([]);
+    expect(locateQuotes(content, "reading responses")).toEqual([]);
+  });
+
+  it("keeps at most three excerpts", () => {
+    const quotes = ["Course", "Students", "primary", "period", "Fridays"];
+    expect(locateQuotes(content, quotes).map(excerpt => excerpt.text)).toEqual(["Course", "Students", "primary"]);
+  });
+});
+
+describe("findKeywordEvidence", () => {
+  it("returns the line around a whole phrase", () => {
+    const [excerpt] = findKeywordEvidence(content, "reading responses");
+
+    expect(excerpt.text).toBe("Weekly reading responses are due on Fridays.");
+    expect(content.substring(excerpt.start, excerpt.end)).toBe(excerpt.text);
+  });
+
+  it("falls back to the longer keywords of a phrase that does not appear as a whole", () => {
+    const excerpts = findKeywordEvidence(content, "use of primary evidence");
+
+    expect(excerpts).toHaveLength(1);
+    expect(excerpts[0].text).toBe("Students will  Analyze primary");
+  });
+});
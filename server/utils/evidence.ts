@@ -0,0 +1,126 @@
+import { EvidenceExcerpt } from "@shared/schema";
+
+// Most excerpts kept for a single SLO or element
+const MAX_EXCERPTS = 3;
+
+// Characters of context kept on each side of a keyword match
+const CONTEXT_CHARS = 80;
+
+/**
+ * Locate quotes returned by the AI in the syllabus content
+ * @param content The syllabus text the offsets refer to
+ * @param quotes Quotes reported by the AI; anything that is not a string is ignored
+ * @returns EvidenceExcerpt[] The quotes that could be found, with their offsets
+ */
+export function locateQuotes(content: string, quotes: unknown): EvidenceExcerpt[] {
+  if (!Array.isArray(quotes)) return [];
+
+  return quotes
+    .filter((quote): quote is string => typeof quote === "string" && quote.trim().length > 0)
+    .map(quote => locateQuote(content, quote))
+    .filter((excerpt): excerpt is EvidenceExcerpt => excerpt !== undefined)
+    .slice(0, MAX_EXCERPTS);
+}
+
+/**
+ * Find excerpts around the words of a requirement phrase, for the keyword analyzer
+ * @param content The syllabus text the offsets refer to
+ * @param phrase The SLO or required element
+ * @returns EvidenceExcerpt[] Excerpts around the whole phrase, or around its important keywords
+ */
+export function findKeywordEvidence(content: string, phrase: string): EvidenceExcerpt[] {
+  const phraseMatches = findMatches(content, [phrase]);
+  if (phraseMatches.length > 0) {
+    return phraseMatches.slice(0, MAX_EXCERPTS).map(match => excerptAround(content, match.start, match.end));
+  }
+
+  // Same keyword selection as keywordPatternMatch: words longer than 3 characters
+  const keywords = phrase.split(/\s+/).filter(keyword => keyword.length > 3);
+  const excerpts: EvidenceExcerpt[] = [];
+
+  for (const match of findMatches(content, keywords)) {
+    // Skip matches already covered by an earlier excerpt
+    if (excerpts.some(excerpt => match.start < excerpt.end)) continue;
+    excerpts.push(excerptAround(content, match.start, match.end));
+    if (excerpts.length >= MAX_EXCERPTS) break;
+  }
+
+  return excerpts;
+}
+
+/**
+ * Locate a single quote, ignoring differences in case and whitespace
+ * @param content The syllabus text
+ * @param quote The quote to locate
+ * @returns EvidenceExcerpt | undefined The located excerpt, if found
+ */
+function locateQuote(content: string, quote: string): EvidenceExcerpt | undefined {
+  const exactStart = content.indexOf(quote);
+  if (exactStart >= 0) {
+    return { text: quote, start: exactStart, end: exactStart + quote.length };
+  }
+
+  // Build a whitespace-collapsed, lowercase copy that remembers the original offsets
+  const positions: number[] = [];
+  let normalized = "";
+  for (let i = 0; i < content.length; i++) {
+    if (/\s/.test(content[i])) {
+      if (normalized.endsWith(" ")) continue;
+      normalized += " ";
+    } else {
+      normalized += content[i].toLowerCase();
+    }
+    positions.push(i);
+  }
+
+  const normalizedQuote = quote.replace(/\s+/g, " ").trim().toLowerCase();
+  const start = normalized.indexOf(normalizedQuote);
+  if (start < 0) return undefined;
+
+  const originalStart = positions[start];
+  const originalEnd = positions[start + normalizedQuote.length - 1] + 1;
+  return { text: content.substring(originalStart, originalEnd), start: originalStart, end: originalEnd };
+}
+
+/**
+ * Find case-insensitive occurrences of any of the terms, in document order
+ * @param content The syllabus text
+ * @param terms Terms to look for
+ * @returns Array of match offsets
+ */
+function findMatches(content: string, terms: string[]): { start: number; end: number }[] {
+  const escaped = terms
+    .filter(term => term.trim().length > 0)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (escaped.length === 0) return [];
+
+  const matches: { start: number; end: number }[] = [];
+  const regex = new RegExp(escaped.join("|"), "gi");
+  let match;
+  while ((match = regex.exec(content)) !== null) {
+    matches.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return matches;
+}
+
+/**
+ * Widen a match to a readable excerpt that stays on the same line
+ * @param content The syllabus text
+ * @param start Start offset of the match
+ * @param end End offset of the match
+ * @returns EvidenceExcerpt The excerpt with its offsets
+ */
+function excerptAround(content: string, start: number, end: number): EvidenceExcerpt {
+  const lineStart = content.lastIndexOf("\n", start - 1) + 1;
+  const lineEndIndex = content.indexOf("\n", end);
+  const lineEnd = lineEndIndex >= 0 ? lineEndIndex : content.length;
+
+  let excerptStart = Math.max(lineStart, start - CONTEXT_CHARS);
+  let excerptEnd = Math.min(lineEnd, end + CONTEXT_CHARS);
+
+  // Keep the offsets in step with the trimmed text
+  while (excerptStart < start && /\s/.test(content[excerptStart])) excerptStart++;
+  while (excerptEnd > end && /\s/.test(content[excerptEnd - 1])) excerptEnd--;
+
+  return { text: content.substring(excerptStart, excerptEnd), start: excerptStart, end: excerptEnd };
+}
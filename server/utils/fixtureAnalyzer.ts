@@ -0,0 +1,67 @@
+import fs from "fs";
+import path from "path";
+import { AnalysisResult } from "@shared/schema";
+import { config } from "../config";
+import { storage } from "../storage";
+import { hashText } from "./analysisCache";
+import { AnalyzerOptions, filterRequirements } from "./genEdAnalyzer";
+
+/**
+ * Replay a recorded analysis for a syllabus, for offline development and demos
+ * @param syllabusText The extracted text from the syllabus
+ * @param options Catalog version and the requirements to analyze
+ * @returns Promise<Partial<AnalysisResult>> The recorded analysis result, limited to the requested requirements
+ */
+export async function analyzeWithFixture(
+  syllabusText: string,
+  options: AnalyzerOptions = {}
+): Promise<Partial<AnalysisResult>> {
+  const fixturePath = getFixturePath(syllabusText);
+
+  if (!fs.existsSync(fixturePath)) {
+    throw new Error(`No recorded analysis for this syllabus (expected ${fixturePath})`);
+  }
+
+  console.log(`Replaying recorded analysis from ${fixturePath}`);
+  const recorded: Partial<AnalysisResult> = JSON.parse(await fs.promises.readFile(fixturePath, "utf-8"));
+
+  // The recording holds every requirement of the catalog it was made with; keep only
+  // the verdicts this analysis asked for
+  const names = filterRequirements(
+    await storage.getRequirements(options.catalogVersionId),
+    options.requirementNames
+  ).map(req => req.name);
+  const requested = <T extends { name: string }>(items?: T[]) => items?.filter(item => names.includes(item.name));
+
+  return {
+    ...recorded,
+    approvedRequirements: requested(recorded.approvedRequirements),
+    rejectedRequirements: requested(recorded.rejectedRequirements),
+    unanalyzedRequirements: requested(recorded.unanalyzedRequirements),
+    bestFit: recorded.bestFit && names.includes(recorded.bestFit.name) ? recorded.bestFit : undefined,
+    potentialFits: requested(recorded.potentialFits),
+    poorFits: requested(recorded.poorFits),
+  };
+}
+
+/**
+ * Record an analysis result so the fixture analyzer can replay it later
+ * @param syllabusText The extracted text from the syllabus
+ * @param result The analysis result to record
+ */
+export async function recordFixture(syllabusText: string, result: Partial<AnalysisResult>): Promise<void> {
+  const fixturePath = getFixturePath(syllabusText);
+
+  await fs.promises.mkdir(path.dirname(fixturePath), { recursive: true });
+  await fs.promises.writeFile(fixturePath, JSON.stringify(result, null, 2));
+  console.log(`Recorded analysis to ${fixturePath}`);
+}
+
+/**
+ * Build the fixture file path for a syllabus
+ * @param syllabusText The extracted text from the syllabus
+ * @returns string Path of the fixture, named after the SHA-256 hash of the text
+ */
+function getFixturePath(syllabusText: string): string {
+  return path.resolve(config.analyzer.fixtureDir, `${hashText(syllabusText)}.json`);
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from "vitest";
+import { requiredMatchCount } from "./genEdAnalyzer";
+
+// The catalog is not read by the threshold helpers
+vi.mock("../storage", () => ({ storage: {} }));
+
+describe("requiredMatchCount", () => {
+  it("rounds a fractional share up", () => {
+    expect(requiredMatchCount(5, 0.6)).toBe(3);
+    expect(requiredMatchCount(4, 0.6)).toBe(3);
+    expect(requiredMatchCount(7, 0.5)).toBe(4);
+  });
+
+  it("does not round up floating point error in an exact share", () => {
+    // 10 * 0.7 is 7.000000000000001
+    expect(requiredMatchCount(10, 0.7)).toBe(7);
+    expect(requiredMatchCount(3, 1 / 3)).toBe(1);
+  });
+
+  it("requires every item at a threshold of 1 and none at 0", () => {
+    expect(requiredMatchCount(6, 1)).toBe(6);
+    expect(requiredMatchCount(6, 0)).toBe(0);
+  });
+
+  it("requires nothing of an empty list", () => {
+    expect(requiredMatchCount(0, 0.6)).toBe(0);
+  });
+});
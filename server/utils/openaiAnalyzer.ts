@@ -1,28 +1,49 @@
-import OpenAI from "openai";
-import { AnalysisResult, ApprovedRequirement, RejectedRequirement, RequirementFit } from "@shared/schema";
-import { GenEdRequirement } from "./genEdAnalyzer";
+import { AnalysisCoverage, AnalysisResult, ApprovedRequirement, ElementEvidence, RejectedRequirement, RequirementFit, SLOEvidence, StageTiming, StageUsage, UnanalyzedRequirement } from "@shared/schema";
+import { AnalyzerOptions, GenEdRequirement, collectThresholds, filterRequirements, requiredMatchCount } from "./genEdAnalyzer";
+import { storage } from "../storage";
+import { attachBulletinChecks } from "./bulletinConstraints";
+import { ParsedSyllabus, combineFailedRules, describeRulesForPrompt, withRejectionMessages } from "./requirementRules";
 import { config } from "../config";
+import { AnalysisStage, modelForStage, requestCompletion, requestJSONCompletion } from "./openaiClient";
+import { locateQuotes } from "./evidence";
+import { TextChunk, chunkSyllabus } from "./textChunker";
+import { sectionText } from "./sectionSegmenter";
+import { RequirementResultItem, courseInfoResponseSchema, fitsResponseSchema, requirementsResponseSchema } from "./responseSchemas";
+import { UsageRecorder, totalUsage, usageRecorder } from "./usage";
 
-// Initialize the OpenAI client
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
-});
+// Version of the prompt templates below; change it whenever a prompt changes so stored
+// verdicts can be traced back to the prompts that produced them
+export const PROMPT_VERSION = "2026-10-19";
 
-// The newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const MODEL = config.openai.model;
+/**
+ * Run an analysis stage and record when it started and finished
+ * @param timings Timings recorded so far
+ * @param stage The analysis stage
+ * @param run The work of the stage
+ * @returns Promise<T> The result of the stage
+ */
+async function timeStage<T>(timings: StageTiming[], stage: AnalysisStage, run: () => Promise<T>): Promise<T> {
+  const startedAt = new Date().toISOString();
+  try {
+    return await run();
+  } finally {
+    timings.push({ stage, model: modelForStage(stage), startedAt, completedAt: new Date().toISOString() });
+  }
+}
 
 /**
  * Extract Student Learning Outcomes (SLOs) from the syllabus text
- * @param syllabusText The full text of the syllabus
- * @returns Promise<string> The extracted SLOs text or a message indicating none were found
+ * @param chunks The syllabus text, split into chunks
+ * @param onUsage Receives the tokens used by each request
+ * @returns Promise<string[]> The course's learning outcomes in syllabus order, or an empty list if none were found
  */
-async function extractSyllabusLearningOutcomes(syllabusText: string): Promise<string> {
+async function extractSyllabusLearningOutcomes(chunks: TextChunk[], onUsage: UsageRecorder): Promise<string[]> {
   try {
     console.log("Extracting Student Learning Outcomes from syllabus...");
     
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: [
+    // Outcomes can appear anywhere, so every chunk is searched and the findings joined
+    const replies = await Promise.all(chunks.map((chunk, index) =>
+      requestCompletion("learningOutcomes", [
         {
           role: "system",
           content: 
@@ -37,89 +58,211 @@ async function extractSyllabusLearningOutcomes(syllabusText: string): Promise<st
         },
         {
           role: "user",
-          content: `Extract all Student Learning Outcomes from this syllabus. Format each SLO as a numbered list item, starting with an action verb when possible. Focus on statements that describe what students will learn or be able to do:\n\n${syllabusText.substring(0, 15000)}`,
+          content: chunks.length > 1
+            ? `Extract all Student Learning Outcomes from part ${index + 1} of ${chunks.length} of this syllabus. Format each SLO as a numbered list item, starting with an action verb when possible. If this part contains no learning outcomes, reply with NONE:\n\n${chunk.text}`
+            : `Extract all Student Learning Outcomes from this syllabus. Format each SLO as a numbered list item, starting with an action verb when possible. Focus on statements that describe what students will learn or be able to do:\n\n${chunk.text}`,
         },
-      ],
-    });
+      ], onUsage)
+    ));
+    // Outcomes repeated across chunk boundaries are kept once
+    const seen = new Set<string>();
+    const outcomes = replies
+      .filter(reply => reply.trim().toUpperCase() !== "NONE")
+      .flatMap(parseOutcomeList)
+      .filter(outcome => {
+        const key = outcome.toLowerCase();
+        if (outcome.length < 10 || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
 
-    const extractedSLOs = response.choices[0].message.content;
-    
-    if (!extractedSLOs || extractedSLOs.trim().length < 10) {
-      console.log("No clear SLOs found in syllabus");
-      return "No clear Student Learning Outcomes could be identified in the syllabus.";
-    }
-    
-    console.log("Successfully extracted Student Learning Outcomes:");
-    console.log("==== EXTRACTED SLOs ====");
-    console.log(extractedSLOs);
-    console.log("==== END EXTRACTED SLOs ====");
-    return extractedSLOs;
+    console.log(outcomes.length > 0
+      ? `Extracted ${outcomes.length} Student Learning Outcomes`
+      : "No clear SLOs found in syllabus");
+    return outcomes;
   } catch (error) {
     console.error("Error extracting SLOs:", error);
-    return "Error extracting Student Learning Outcomes from syllabus.";
+    return [];
   }
 }
 
 /**
- * Uses advanced AI to analyze syllabus text against Gen Ed requirements
+ * Read the outcomes out of a numbered or bulleted list reply
+ * @param reply The model's reply
+ * @returns string[] The text of each list item, or of each line when the reply has no list markers
+ */
+function parseOutcomeList(reply: string): string[] {
+  const lines = reply.split("\n").map(line => line.trim()).filter(Boolean);
+  const items = lines
+    .map(line => /^(?:\d+[.)]|[-*•])\s+(.+)$/.exec(line)?.[1])
+    .filter((item): item is string => item !== undefined);
+
+  // Introductions such as "Here are the outcomes:" are dropped along with the list markers
+  return (items.length > 0 ? items : lines).map(item => item.replace(/\*\*/g, "").trim());
+}
+
+/**
+ * Uses advanced AI to analyze syllabus text against the Gen Ed requirements catalog stored in the database
  * @param syllabusText The extracted text from the syllabus
- * @param genEdRequirements Array of Gen Ed requirements to check against
+ * @param options Catalog version and user-supplied course code
  * @returns Promise<Partial<AnalysisResult>> Analysis result with approved and rejected requirements
  */
 export async function analyzeWithOpenAI(
   syllabusText: string,
-  genEdRequirements: GenEdRequirement[]
+  options: AnalyzerOptions = {}
 ): Promise<Partial<AnalysisResult>> {
   try {
-    // Make sure OpenAI API key is available
-    if (!config.openai.apiKey) {
+    // Make sure OpenAI API key is available, unless a self-hosted server is configured
+    if (!config.openai.apiKey && !config.openai.baseURL) {
       throw new Error("OpenAI API key is missing. Please set the OPENAI_API_KEY environment variable.");
     }
     
+    // Load the requested requirements catalog
+    const genEdRequirements: GenEdRequirement[] = filterRequirements(
+      await storage.getRequirements(options.catalogVersionId),
+      options.requirementNames
+    );
+    
+    const stageTimings: StageTiming[] = [];
+    const usage: StageUsage[] = [];
+    const report = options.onProgress ?? (() => {});
+    
     // Extract course information
     console.log("Extracting course information with OpenAI...");
-    const courseInfo = await extractCourseInfoWithAI(syllabusText);
+    report({ step: "courseInfo", status: "started", message: "Identifying the course" });
+    const courseInfo = await timeStage(stageTimings, "courseInfo", () =>
+      extractCourseInfoWithAI(syllabusText, usageRecorder(usage, "courseInfo"))
+    );
     console.log(`Course identified as: ${courseInfo.name} (${courseInfo.code})`);
+    report({ step: "courseInfo", status: "completed", message: `Course identified as ${courseInfo.name}${courseInfo.code ? ` (${courseInfo.code})` : ""}` });
+    const courseCode = options.courseCode || courseInfo.code;
+    
+    // Split long syllabi into section-aligned chunks instead of truncating them
+    const allChunks = chunkSyllabus(syllabusText, config.openai.chunkSize);
+    const chunks = allChunks.slice(0, config.openai.maxChunks);
+    const coverage: AnalysisCoverage = {
+      totalCharacters: syllabusText.length,
+      analyzedCharacters: chunks.reduce((total, chunk) => total + chunk.text.length, 0),
+      chunkCount: allChunks.length,
+      analyzedChunks: chunks.length,
+    };
+    if (chunks.length < allChunks.length) {
+      console.warn(`Syllabus has ${allChunks.length} chunks; only the first ${chunks.length} will be analyzed`);
+    }
     
     // Process each requirement with OpenAI
     const approvedRequirements: ApprovedRequirement[] = [];
     const rejectedRequirements: RejectedRequirement[] = [];
+    const unanalyzedRequirements: UnanalyzedRequirement[] = [];  // Requirements whose batch failed after all retries
 
     // Process requirements in batches to prevent token limits
     const batchSize = 3;
     const totalBatches = Math.ceil(genEdRequirements.length / batchSize);
     
     console.log(`Processing ${genEdRequirements.length} requirements in ${totalBatches} batches...`);
+    report({
+      step: "requirements",
+      status: "started",
+      message: `Checking ${genEdRequirements.length} requirements in ${totalBatches} batches`,
+      current: 0,
+      total: totalBatches
+    });
     
-    for (let i = 0; i < genEdRequirements.length; i += batchSize) {
-      const batchNumber = Math.floor(i / batchSize) + 1;
-      const requirementsBatch = genEdRequirements.slice(i, i + batchSize);
-      
-      console.log(`Processing batch ${batchNumber}/${totalBatches}: ${requirementsBatch.map(r => r.name).join(', ')}`);
-      
-      try {
-        const batchResults = await processRequirementsBatch(syllabusText, requirementsBatch);
-        
-        approvedRequirements.push(...batchResults.approved);
-        rejectedRequirements.push(...batchResults.rejected);
-        
-        console.log(`Batch ${batchNumber} complete: ${batchResults.approved.length} approved, ${batchResults.rejected.length} rejected requirements`);
-      } catch (batchError) {
-        console.error(`Error processing batch ${batchNumber}:`, batchError);
-        // Continue with next batch instead of failing the entire process
+    await timeStage(stageTimings, "requirements", async () => {
+      // Batches run in parallel; the request scheduler keeps them within the rate limits
+      const batches: GenEdRequirement[][] = [];
+      for (let i = 0; i < genEdRequirements.length; i += batchSize) {
+        batches.push(genEdRequirements.slice(i, i + batchSize));
       }
-    }
+
+      // Batches finish in any order; progress counts them as they do
+      let finishedBatches = 0;
+      const outcomes = await Promise.allSettled(batches.map((requirementsBatch, index) => {
+        console.log(`Processing batch ${index + 1}/${totalBatches}: ${requirementsBatch.map(r => r.name).join(', ')}`);
+        return processRequirementsBatch(syllabusText, chunks, requirementsBatch, courseCode, options, usageRecorder(usage, "requirements", index + 1))
+          .then(batchResults => {
+            const message = `Batch ${index + 1} complete: ${batchResults.approved.length} approved, ${batchResults.rejected.length} rejected requirements`;
+            console.log(message);
+            report({ step: "requirements", status: "progress", message, current: ++finishedBatches, total: totalBatches });
+            return batchResults;
+          }, batchError => {
+            console.error(`Error processing batch ${index + 1}:`, batchError);
+            const message = `Batch ${index + 1} could not be analyzed: ${requirementsBatch.map(r => r.name).join(', ')}`;
+            report({ step: "requirements", status: "progress", message, current: ++finishedBatches, total: totalBatches });
+            throw batchError;
+          });
+      }));
+
+      // Collect the results in catalog order
+      for (let index = 0; index < outcomes.length; index++) {
+        const outcome = outcomes[index];
+        if (outcome.status === "fulfilled") {
+          approvedRequirements.push(...outcome.value.approved);
+          rejectedRequirements.push(...outcome.value.rejected);
+        } else {
+          // A failed batch does not fail the entire process
+          const reason = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+          unanalyzedRequirements.push(...batches[index].map(r => ({ name: r.name, reason })));
+        }
+      }
+    });
 
     console.log(`OpenAI analysis summary: ${approvedRequirements.length} approved, ${rejectedRequirements.length} rejected requirements`);
+    if (unanalyzedRequirements.length > 0) {
+      console.warn(`Requirements that could not be analyzed: ${unanalyzedRequirements.map(r => r.name).join(', ')}`);
+    }
+    report({
+      step: "requirements",
+      status: unanalyzedRequirements.length === genEdRequirements.length && genEdRequirements.length > 0 ? "failed" : "completed",
+      message: `${approvedRequirements.length} approved, ${rejectedRequirements.length} rejected` +
+        (unanalyzedRequirements.length > 0 ? `, ${unanalyzedRequirements.length} not analyzed` : ""),
+      current: totalBatches,
+      total: totalBatches
+    });
+    if (genEdRequirements.length > 0 && unanalyzedRequirements.length === genEdRequirements.length) {
+      // Nothing was analyzed, so let the fallback analyzer take over
+      throw new Error(`No requirement could be analyzed: ${unanalyzedRequirements[0].reason}`);
+    }
     
-    // Determine requirement fit categories
-    console.log("Analyzing Student Learning Outcomes to determine best fits...");
-    const fitResults = await determineRequirementFits(syllabusText, approvedRequirements, rejectedRequirements, genEdRequirements);
+    // Check the course code against the bulletin constraints
+    attachBulletinChecks([...approvedRequirements, ...rejectedRequirements], genEdRequirements, courseCode);
     
-    if (fitResults.bestFit) {
-      console.log(`Best fit identified: ${fitResults.bestFit.name} with match score ${fitResults.bestFit.matchScore}%`);
-    } else {
-      console.log("No clear best fit identified");
+    // Determine requirement fit categories; fits compare the whole catalog, so they are
+    // skipped when only some requirements are analyzed
+    let fitResults: Awaited<ReturnType<typeof determineRequirementFits>> = { potentialFits: [], poorFits: [] };
+    let learningOutcomes: string[] | undefined;
+    if (!options.requirementNames) {
+      console.log("Extracting Student Learning Outcomes for fit analysis...");
+      report({ step: "learningOutcomes", status: "started", message: "Extracting the course's learning outcomes" });
+      // Only the learning outcomes sections are searched when the segmenter found any
+      const outcomesText = sectionText(syllabusText, options.sections, "learningOutcomes");
+      const outcomeChunks = outcomesText ? chunkSyllabus(outcomesText, config.openai.chunkSize) : chunks;
+      learningOutcomes = await timeStage(stageTimings, "learningOutcomes", () =>
+        extractSyllabusLearningOutcomes(outcomeChunks, usageRecorder(usage, "learningOutcomes"))
+      );
+      report({ step: "learningOutcomes", status: "completed", message: `${learningOutcomes.length} learning outcomes extracted` });
+      const extractedSLOs = learningOutcomes.length > 0
+        ? learningOutcomes.map((outcome, index) => `${index + 1}. ${outcome}`).join("\n")
+        : "No clear Student Learning Outcomes could be identified in the syllabus.";
+      
+      console.log("Analyzing Student Learning Outcomes to determine best fits...");
+      report({ step: "fits", status: "started", message: "Scoring how well each requirement fits" });
+      fitResults = await timeStage(stageTimings, "fits", () =>
+        determineRequirementFits(chunks, extractedSLOs, approvedRequirements, rejectedRequirements, genEdRequirements, usageRecorder(usage, "fits"))
+      );
+      report({
+        step: "fits",
+        status: "completed",
+        message: fitResults.bestFit
+          ? `Best fit identified: ${fitResults.bestFit.name} (${fitResults.bestFit.matchScore}%)`
+          : "No clear best fit identified"
+      });
+      
+      if (fitResults.bestFit) {
+        console.log(`Best fit identified: ${fitResults.bestFit.name} with match score ${fitResults.bestFit.matchScore}%`);
+      } else {
+        console.log("No clear best fit identified");
+      }
     }
     
     return {
@@ -130,6 +273,16 @@ export async function analyzeWithOpenAI(
       bestFit: fitResults.bestFit,
       potentialFits: fitResults.potentialFits,
       poorFits: fitResults.poorFits,
+      thresholds: collectThresholds(genEdRequirements),
+      coverage,
+      unanalyzedRequirements,
+      learningOutcomes,
+      model: modelForStage("requirements"),
+      temperature: config.openai.temperature,
+      promptVersion: PROMPT_VERSION,
+      stageTimings,
+      usage,
+      ...totalUsage(usage),
     };
   } catch (error) {
     console.error("Error analyzing with OpenAI:", error);
@@ -140,31 +293,26 @@ export async function analyzeWithOpenAI(
 /**
  * Extract course name and code from syllabus using AI
  * @param syllabusText The extracted text from the syllabus
+ * @param onUsage Receives the tokens used by each request
  * @returns Promise<{name: string, code: string}> Course information
  */
-async function extractCourseInfoWithAI(syllabusText: string): Promise<{ name: string; code: string }> {
+async function extractCourseInfoWithAI(syllabusText: string, onUsage: UsageRecorder): Promise<{ name: string; code: string }> {
   try {
     console.log("Extracting course information with AI...");
     
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: [
-        {
-          role: "system",
-          content: 
-            "You are an expert academic document analyzer. Extract the course name and course code from the syllabus text. " +
-            "Course codes typically follow formats like 'ENGL 101' or 'MATH 304'. If you cannot find the course name or code, " +
-            "indicate with 'Unknown' for the name and empty string for the code. Respond in JSON format only."
-        },
-        {
-          role: "user",
-          content: `Extract the course name and course code from this syllabus:\n\n${syllabusText.substring(0, 4000)}`,
-        },
-      ],
-      response_format: { type: "json_object" },
-    });
-
-    const result = JSON.parse(response.choices[0].message.content as string);
+    const result = await requestJSONCompletion("courseInfo", [
+      {
+        role: "system",
+        content: 
+          "You are an expert academic document analyzer. Extract the course name and course code from the syllabus text. " +
+          "Course codes typically follow formats like 'ENGL 101' or 'MATH 304'. If you cannot find the course name or code, " +
+          "indicate with 'Unknown' for the name and empty string for the code. Respond in JSON format only."
+      },
+      {
+        role: "user",
+        content: `Extract the course name and course code from this syllabus:\n\n${syllabusText.substring(0, 4000)}`,
+      },
+    ], courseInfoResponseSchema, onUsage);
     
     return {
       name: result.courseName || "Unknown Course",
@@ -177,29 +325,48 @@ async function extractCourseInfoWithAI(syllabusText: string): Promise<{ name: st
 }
 
 /**
- * Process a batch of requirements against the syllabus text
- * @param syllabusText The syllabus text to analyze
+ * Process a batch of requirements against the syllabus text, one chunk at a time
+ * @param syllabusText The full syllabus text, used for rules and evidence offsets
+ * @param chunks The chunks of the syllabus to analyze
  * @param requirements Array of requirements to check
+ * @param courseCode Course code used to check deterministic rules
+ * @param parsed Parsed schedule and assessments, used to measure rules
+ * @param onUsage Receives the tokens used by each request
  * @returns Promise<{approved: ApprovedRequirement[], rejected: RejectedRequirement[]}> 
  */
 async function processRequirementsBatch(
   syllabusText: string,
-  requirements: GenEdRequirement[]
+  chunks: TextChunk[],
+  requirements: GenEdRequirement[],
+  courseCode: string,
+  parsed: ParsedSyllabus,
+  onUsage: UsageRecorder
 ): Promise<{ approved: ApprovedRequirement[]; rejected: RejectedRequirement[] }> {
   const requirementsData = requirements.map(req => ({
     name: req.name,
     description: req.description,
     slos: req.slos,
     requiredElements: req.requiredElements,
+    minimumRequiredElements: requiredMatchCount(req.requiredElements.length, req.elementThreshold),
+    minimumSLOs: requiredMatchCount(req.slos.length, req.sloThreshold),
   }));
 
-  const truncatedSyllabus = syllabusText.substring(0, 12000); // Limit syllabus length to avoid token limits
+  // Map: analyze each chunk separately, in parallel
+  const responseSchema = requirementsResponseSchema(requirements.map(req => req.name));
+  const chunkResults: RequirementResultItem[][] = await Promise.all(chunks.map(async (chunk, index) => {
+    if (chunks.length > 1) {
+      console.log(`Analyzing syllabus part ${index + 1}/${chunks.length}`);
+    }
+
+    const syllabusHeading = chunks.length > 1
+      ? `SYLLABUS (part ${index + 1} of ${chunks.length}; the other parts are analyzed separately, so report only what this part contains)`
+      : "SYLLABUS";
 
-  const prompt = `
+    const prompt = `
 You are an expert in academic curriculum analysis. Analyze this syllabus against the following General Education requirements.
 
-SYLLABUS:
-${truncatedSyllabus}
+${syllabusHeading}:
+${chunk.text}
 
 REQUIREMENTS TO CHECK:
 ${JSON.stringify(requirementsData, null, 2)}
@@ -208,105 +375,88 @@ For each requirement, determine:
 1. Whether the requirement is MET or NOT MET based on the syllabus content
 2. For MET requirements: Identify which specific required elements are present and which specific Student Learning Outcomes (SLOs) are addressed
 3. For NOT MET requirements: Identify which specific required elements are missing and which specific SLOs are not adequately addressed
+4. For EVERY required element and SLO, matched or missing: quote up to 3 short passages copied exactly from the syllabus that support your verdict (use an empty list when nothing in the syllabus relates to it)
 
 A requirement is MET if:
-- At least 60% of its required elements are present in the syllabus
-- At least 60% of its Student Learning Outcomes (SLOs) are addressed
-
-SPECIAL CRITERIA FOR SPECIFIC REQUIREMENTS:
-
-1. ETHICS REQUIREMENT:
-- Courses should ONLY be approved for Ethics/Ethical Reasoning if they are primarily philosophy courses taught in a philosophy department.
-- Look for explicit mentions that the course is housed in a philosophy department or has a PHIL course code.
-- The syllabus must clearly indicate that the course focuses on philosophical ethics, not just ethical considerations within another discipline.
-- If the syllabus doesn't explicitly state that it's a philosophy course in a philosophy department, mark "Ethics" as NOT MET regardless of other criteria.
-
-2. MODERN LANGUAGE REQUIREMENT:
-- Courses should ONLY be approved for Modern Language if they explicitly state that students will learn to communicate in a non-English language.
-- The syllabus must clearly indicate that active language learning (speaking, writing, reading) in a non-English language is a primary focus of the course.
-- Look for evidence of assignments, exercises, or assessments conducted in the non-English language.
-- If the syllabus doesn't explicitly show that students will actively learn to communicate in a non-English language, mark "Modern Language" as NOT MET regardless of other criteria.
-
-3. CREATIVITY AND MAKING REQUIREMENT:
-- For the "Creativity and Making" requirement, it can ONLY be approved if more than half (>50%) of the course content is dedicated to creative writing, theater, design, or visual arts. 
-- Look for evidence in the course schedule, assignments, and learning activities that the majority of the class time and coursework focuses on these creative disciplines.
-- If the syllabus doesn't clearly demonstrate that more than half of the class is dedicated to these creative activities, mark "Creativity and Making" as NOT MET regardless of other criteria.
-
-Be strict in applying these special criteria. Do not mark a requirement as MET unless it fully satisfies its specific criteria.
+- At least "minimumRequiredElements" of its required elements are present in the syllabus
+- At least "minimumSLOs" of its Student Learning Outcomes (SLOs) are addressed
 
+${describeRulesForPrompt(requirements, parsed)}
 Respond only in JSON format with this structure:
 {
   "results": [
     {
       "requirement": "Requirement Name",
       "status": "MET" or "NOT MET",
-      "matchingElements": ["Element 1", "Element 2", ...], // For MET requirements
+      "matchingElements": ["Element 1", "Element 2", ...], // Required elements that are present
       "matchingSLOs": [1, 2, ...], // SLO numbers (1-indexed) that are matched
-      "missingElements": ["Element 3", ...], // For NOT MET requirements
-      "missingSLOs": [3, 4, ...] // SLO numbers (1-indexed) that are missing
+      "missingElements": ["Element 3", ...], // Required elements that are missing
+      "missingSLOs": [3, 4, ...], // SLO numbers (1-indexed) that are missing
+      "failedRules": [1, ...], // Special criteria rule numbers that are not satisfied
+      "elementEvidence": {"Element 1": ["exact quote from the syllabus", ...], ...}, // Every required element
+      "sloEvidence": {"1": ["exact quote from the syllabus", ...], ...} // Every SLO number
     },
     // Repeat for each requirement
   ]
 }
 `;
 
-  const response = await openai.chat.completions.create({
-    model: MODEL,
-    messages: [
+    const result = await requestJSONCompletion("requirements", [
       {
         role: "user",
         content: prompt,
       },
-    ],
-    response_format: { type: "json_object" },
-  });
-
-  const result = JSON.parse(response.choices[0].message.content as string);
+    ], responseSchema, onUsage);
+    return result.results;
+  }));
+  
+  // Reduce: merge the findings of every chunk
+  const results = chunkResults.length === 1 ? chunkResults[0] : mergeChunkResults(requirements, chunkResults);
   
   // Process the results
   const approved: ApprovedRequirement[] = [];
   const rejected: RejectedRequirement[] = [];
 
-  for (const item of result.results) {
-    if (item.status === "MET") {
+  for (const item of results) {
+    const requirement = requirements.find(req => req.name === item.requirement);
+    const rules = requirement?.rules || [];
+    
+    // Rules the AI reported as failed, plus the rules decided from the course code, schedule and assessments
+    const failedRules = combineFailedRules(rules, item.failedRules, syllabusText, courseCode, parsed);
+    
+    // Do not trust a MET verdict that does not reach the requirement's thresholds
+    const matchingElements = item.matchingElements;
+    const matchingSLOs = item.matchingSLOs;
+    const meetsThresholds = !requirement || meetsRequirementThresholds(requirement, matchingElements, matchingSLOs);
+    
+    // Locate the quoted evidence in the syllabus so it carries offsets
+    const { sloEvidence, elementEvidence } = locateEvidence(syllabusText, requirement, item);
+    
+    if (item.status === "MET" && failedRules.length === 0 && meetsThresholds) {
       approved.push({
         name: item.requirement,
-        matchingRequirements: item.matchingElements || [],
-        matchingSLOs: item.matchingSLOs || [],
+        matchingRequirements: matchingElements,
+        matchingSLOs,
+        sloEvidence,
+        elementEvidence,
       });
     } else {
-      // Add specific reason explanations for certain requirements when they're not met
-      let extendedMissingRequirements = [...(item.missingElements || [])];
-      
-      // Add special detailed explanations for the strict requirement failures
-      if (item.requirement === "Ethics" || item.requirement === "Ethical Reasoning") {
-        if (!extendedMissingRequirements.some(r => r.includes("philosophy department"))) {
-          extendedMissingRequirements.push(
-            "Course must be primarily a philosophy course taught in a philosophy department"
-          );
-        }
-      }
-      
-      if (item.requirement === "Modern Language") {
-        if (!extendedMissingRequirements.some(r => r.includes("non-English language"))) {
-          extendedMissingRequirements.push(
-            "Course must explicitly focus on teaching students to communicate in a non-English language"
-          );
-        }
-      }
-      
-      if (item.requirement === "Creativity and Making") {
-        if (!extendedMissingRequirements.some(r => r.includes("more than half"))) {
-          extendedMissingRequirements.push(
-            "More than 50% of the course must be dedicated to creative writing, theater, design, or visual arts"
-          );
-        }
-      }
+      // A MET verdict that was overruled lists everything it did not match
+      const overruled = item.status === "MET" && requirement !== undefined;
+      const missingElements: string[] = overruled
+        ? requirement.requiredElements.filter(element => !matchingElements.includes(element))
+        : item.missingElements;
+      const missingSLOs: number[] = overruled
+        ? requirement.slos.map((_, index) => index + 1).filter(slo => !matchingSLOs.includes(slo))
+        : item.missingSLOs;
       
+      // Explain which special criteria were not satisfied
       rejected.push({
         name: item.requirement,
-        missingRequirements: extendedMissingRequirements,
-        missingSLOs: item.missingSLOs || [],
+        missingRequirements: withRejectionMessages(missingElements, failedRules),
+        missingSLOs,
+        sloEvidence,
+        elementEvidence,
       });
     }
   }
@@ -314,31 +464,140 @@ Respond only in JSON format with this structure:
   return { approved, rejected };
 }
 
+/**
+ * Check matched elements and SLOs against a requirement's thresholds
+ * @param requirement The requirement definition
+ * @param matchingElements Required elements that were matched
+ * @param matchingSLOs SLO numbers that were matched
+ * @returns boolean True if both thresholds are reached
+ */
+function meetsRequirementThresholds(
+  requirement: GenEdRequirement,
+  matchingElements: string[],
+  matchingSLOs: number[]
+): boolean {
+  return matchingElements.length >= requiredMatchCount(requirement.requiredElements.length, requirement.elementThreshold) &&
+    matchingSLOs.length >= requiredMatchCount(requirement.slos.length, requirement.sloThreshold);
+}
+
+/**
+ * Merge the AI results for each chunk into one result per requirement
+ * @param requirements The requirements in the batch
+ * @param chunkResults The AI results, one list per chunk
+ * @returns RequirementResultItem[] Results in the same shape as a single AI response
+ */
+function mergeChunkResults(
+  requirements: GenEdRequirement[],
+  chunkResults: RequirementResultItem[][]
+): RequirementResultItem[] {
+  const merged: RequirementResultItem[] = [];
+
+  for (const requirement of requirements) {
+    const items = chunkResults
+      .map(results => results.find(item => item.requirement === requirement.name))
+      .filter((item): item is RequirementResultItem => item !== undefined);
+    if (items.length === 0) continue;
+
+    // An element or SLO is matched if any part of the syllabus matches it
+    const matchingElements = requirement.requiredElements.filter(element =>
+      items.some(item => item.matchingElements.includes(element))
+    );
+    const matchingSLOs = requirement.slos
+      .map((_, index) => index + 1)
+      .filter(slo => items.some(item => item.matchingSLOs.includes(slo)));
+
+    // A rule fails only if no part satisfies it, since each part sees only some of the syllabus
+    const failedRules = items
+      .map(item => item.failedRules)
+      .reduce((common, ruleNumbers) => common.filter(number => ruleNumbers.includes(number)));
+
+    // The verdict is recomputed from the merged findings; no single part sees enough to judge it
+    merged.push({
+      requirement: requirement.name,
+      status: meetsRequirementThresholds(requirement, matchingElements, matchingSLOs) ? "MET" : "NOT MET",
+      matchingElements,
+      matchingSLOs,
+      missingElements: requirement.requiredElements.filter(element => !matchingElements.includes(element)),
+      missingSLOs: requirement.slos.map((_, index) => index + 1).filter(slo => !matchingSLOs.includes(slo)),
+      failedRules,
+      sloEvidence: mergeQuotes(items.map(item => item.sloEvidence)),
+      elementEvidence: mergeQuotes(items.map(item => item.elementEvidence)),
+    });
+  }
+
+  return merged;
+}
+
+/**
+ * Concatenate the evidence quotes the AI gave for each chunk
+ * @param evidence Quote maps from each chunk, keyed by SLO number or element
+ * @returns Record<string, string[]> The quotes for each key
+ */
+function mergeQuotes(evidence: Record<string, string[]>[]): Record<string, string[]> {
+  const merged: Record<string, string[]> = {};
+  for (const quotes of evidence) {
+    for (const [key, value] of Object.entries(quotes)) {
+      merged[key] = [...(merged[key] || []), ...value];
+    }
+  }
+  return merged;
+}
+
+/**
+ * Map the quotes the AI gave for each SLO and element to excerpts with offsets
+ * @param syllabusText The syllabus text the quotes were taken from
+ * @param requirement The requirement definition, if the AI named a known requirement
+ * @param item The AI result for the requirement
+ * @returns Evidence for every SLO and required element; quotes that cannot be found are dropped
+ */
+function locateEvidence(
+  syllabusText: string,
+  requirement: GenEdRequirement | undefined,
+  item: RequirementResultItem
+): { sloEvidence: SLOEvidence[]; elementEvidence: ElementEvidence[] } {
+  if (!requirement) return { sloEvidence: [], elementEvidence: [] };
+
+  const sloQuotes = item.sloEvidence;
+  const elementQuotes = item.elementEvidence;
+
+  return {
+    sloEvidence: requirement.slos.map((_, index) => ({
+      slo: index + 1,
+      excerpts: locateQuotes(syllabusText, sloQuotes[String(index + 1)]),
+    })),
+    elementEvidence: requirement.requiredElements.map(element => ({
+      element,
+      excerpts: locateQuotes(syllabusText, elementQuotes[element]),
+    })),
+  };
+}
+
 /**
  * Determine which requirements best fit the syllabus
- * @param syllabusText The syllabus text to analyze
+ * @param chunks The chunks of the syllabus that were analyzed
+ * @param extractedSLOs The learning outcomes extracted from the syllabus
  * @param approvedRequirements List of requirements that the syllabus meets
  * @param rejectedRequirements List of requirements that the syllabus does not meet
  * @param genEdRequirements Full list of Gen Ed requirements
+ * @param onUsage Receives the tokens used by each request
  * @returns Promise<{bestFit?: RequirementFit, potentialFits: RequirementFit[], poorFits: RequirementFit[]}>
  */
 async function determineRequirementFits(
-  syllabusText: string,
+  chunks: TextChunk[],
+  extractedSLOs: string,
   approvedRequirements: ApprovedRequirement[],
   rejectedRequirements: RejectedRequirement[],
-  genEdRequirements: GenEdRequirement[]
+  genEdRequirements: GenEdRequirement[],
+  onUsage: UsageRecorder
 ): Promise<{
   bestFit?: RequirementFit, 
   potentialFits: RequirementFit[], 
   poorFits: RequirementFit[]
 }> {
   try {
-    // First extract the SLOs from the syllabus
-    console.log("Extracting Student Learning Outcomes for fit analysis...");
-    const extractedSLOs = await extractSyllabusLearningOutcomes(syllabusText);
-    
-    // Truncate syllabus to avoid token limits
-    const truncatedSyllabus = syllabusText.substring(0, 10000);
+    // The first chunk serves as an excerpt; the rest of the syllabus is represented by the
+    // extracted SLOs and the merged per-chunk findings
+    const syllabusExcerpt = chunks[0]?.text || "";
     
     // Prepare requirements data
     const requirementsData = genEdRequirements.map(req => ({
@@ -350,13 +609,16 @@ async function determineRequirementFits(
     // Prepare approved and rejected requirements summaries
     const approvedNames = approvedRequirements.map(r => r.name);
     const rejectedNames = rejectedRequirements.map(r => r.name);
+    const matchedSLOSummary = approvedRequirements
+      .filter(r => r.matchingSLOs.length > 0)
+      .map(r => `${r.name}: SLOs ${r.matchingSLOs.join(', ')}`);
     
     // Create a prompt for OpenAI to analyze requirement fits
     const prompt = `
 You are an expert in analyzing academic syllabi against General Education requirements.
 
 SYLLABUS TEXT (excerpt):
-${truncatedSyllabus}
+${syllabusExcerpt}
 
 EXTRACTED STUDENT LEARNING OUTCOMES FROM SYLLABUS:
 ${extractedSLOs}
@@ -367,6 +629,7 @@ ${JSON.stringify(requirementsData, null, 2)}
 CURRENT ANALYSIS:
 The syllabus has PASSED these requirements: ${approvedNames.join(', ') || "None"}
 The syllabus has FAILED these requirements: ${rejectedNames.join(', ') || "None"}
+SLOs matched across the whole syllabus for the passed requirements: ${matchedSLOSummary.join('; ') || "None"}
 
 Your task is to categorize ALL requirements by how well they fit this syllabus:
 1. BEST FIT (select at most 2): The requirements that are the most natural and appropriate for this course based on how well they align with the extracted Student Learning Outcomes
@@ -419,22 +682,15 @@ Respond in JSON with this structure:
 `;
 
     // Make the AI request
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      response_format: { type: "json_object" },
-    });
-
-    // Parse the result
-    const result = JSON.parse(response.choices[0].message.content as string);
+    const result = await requestJSONCompletion("fits", [
+      {
+        role: "user",
+        content: prompt,
+      },
+    ], fitsResponseSchema, onUsage);
     
     // Process the result to handle the new structure with multiple best fits
-    const bestFits = result.bestFits || [];
+    const bestFits = result.bestFits;
     
     if (bestFits.length > 0) {
       console.log(`Found ${bestFits.length} best fits:`);
@@ -452,9 +708,9 @@ Respond in JSON with this structure:
       // If there's a second best fit, add it to potential fits
       potentialFits: [
         ...(bestFits.length > 1 ? [bestFits[1]] : []),
-        ...(result.potentialFits || [])
+        ...result.potentialFits
       ],
-      poorFits: result.poorFits || [],
+      poorFits: result.poorFits,
     };
   } catch (error) {
     console.error("Error determining requirement fits:", error);
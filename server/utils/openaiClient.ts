@@ -0,0 +1,234 @@
+import OpenAI from "openai";
+import type {
+  ChatCompletion,
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionMessageParam,
+} from "openai/resources/chat/completions";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { config } from "../config";
+import { RequestScheduler } from "./requestScheduler";
+import { UsageRecorder } from "./usage";
+
+// Stages of the AI analysis that can use their own model
+export type AnalysisStage = "segmentation" | "courseInfo" | "learningOutcomes" | "requirements" | "fits";
+
+// Initialize a client for OpenAI or any OpenAI-compatible chat-completions server
+export const openai = new OpenAI({
+  apiKey: config.openai.apiKey || "not-needed",  // Self-hosted servers often do not check the key
+  baseURL: config.openai.baseURL || undefined,
+  defaultHeaders: config.openai.headers,
+  maxRetries: 0,  // Retries are left to the scheduler, which backs off across all requests
+});
+
+// Every analysis shares one scheduler, so parallel batches and files stay within the limits
+export const scheduler = new RequestScheduler({
+  concurrency: config.openai.concurrency,
+  requestsPerMinute: config.openai.requestsPerMinute,
+  tokensPerMinute: config.openai.tokensPerMinute,
+  maxAttempts: config.openai.maxAttempts,
+  retryDelayMs: config.openai.retryDelayMs,
+});
+
+// Tokens reserved for the reply until the actual usage is known
+const REPLY_TOKEN_ESTIMATE = 1000;
+
+/**
+ * Pick the model for an analysis stage
+ * @param stage The analysis stage
+ * @returns string The stage's model override, or the default model
+ */
+export function modelForStage(stage: AnalysisStage): string {
+  return config.openai.stageModels[stage] || config.openai.model;
+}
+
+/**
+ * Describe the models used across all analysis stages
+ * @returns string The distinct models, e.g. "gpt-4o" or "gpt-4o+gpt-4o-mini"
+ */
+export function describeModels(): string {
+  const stages: AnalysisStage[] = ["courseInfo", "learningOutcomes", "requirements", "fits"];
+  return Array.from(new Set(stages.map(modelForStage))).join("+");
+}
+
+/**
+ * Send a chat completion request and return the text of the reply
+ * @param stage The analysis stage, used to pick the model
+ * @param messages The chat messages
+ * @param onUsage Receives the tokens used by the request
+ * @returns Promise<string> The reply text
+ */
+export async function requestCompletion(
+  stage: AnalysisStage,
+  messages: ChatCompletionMessageParam[],
+  onUsage?: UsageRecorder
+): Promise<string> {
+  const response = await createCompletion({
+    model: modelForStage(stage),
+    messages,
+    ...temperatureOption(),
+  }, onUsage);
+
+  return response.choices[0]?.message.content || "";
+}
+
+/**
+ * Send a chat completion request that must be answered with a JSON object matching a schema.
+ * Invalid replies are sent back to the model for repair; failed requests are retried by the scheduler.
+ * @param stage The analysis stage, used to pick the model
+ * @param messages The chat messages
+ * @param schema Zod schema the reply must match
+ * @param onUsage Receives the tokens used by each request, including repairs
+ * @returns Promise<T> The validated reply
+ */
+export async function requestJSONCompletion<T>(
+  stage: AnalysisStage,
+  messages: ChatCompletionMessageParam[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  onUsage?: UsageRecorder
+): Promise<T> {
+  const conversation = [...messages];
+  const maxAttempts = config.openai.maxAttempts;
+  let lastError: Error | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const content = await createJSONCompletion(stage, conversation, onUsage);
+
+    const validation = validateReply(content, schema);
+    if (validation.success) return validation.data;
+
+    lastError = new Error(validation.error);
+    console.warn(`Invalid ${stage} response (attempt ${attempt}/${maxAttempts}): ${validation.error}`);
+
+    // Ask the model to repair its reply; the repair goes through the scheduler like any request,
+    // so it counts against the rate limits and needs no delay of its own
+    conversation.push(
+      { role: "assistant", content },
+      {
+        role: "user",
+        content: `Your reply did not match the required JSON structure: ${validation.error}. ` +
+          "Reply again with the complete, corrected JSON object only.",
+      },
+    );
+  }
+
+  throw new Error(`No valid ${stage} response after ${maxAttempts} attempts: ${lastError?.message}`);
+}
+
+/**
+ * Send a single chat completion request for a JSON reply
+ * @param stage The analysis stage, used to pick the model
+ * @param messages The chat messages
+ * @param onUsage Receives the tokens used by the request
+ * @returns Promise<string> The reply text
+ */
+async function createJSONCompletion(
+  stage: AnalysisStage,
+  messages: ChatCompletionMessageParam[],
+  onUsage?: UsageRecorder
+): Promise<string> {
+  // Servers without response_format support are asked for JSON in the prompt instead
+  const useResponseFormat = config.openai.jsonMode === "response_format";
+
+  const response = await createCompletion({
+    model: modelForStage(stage),
+    messages: useResponseFormat
+      ? messages
+      : [
+          ...messages,
+          {
+            role: "system",
+            content: "Respond with a single valid JSON object only, without markdown code fences or any other text.",
+          },
+        ],
+    ...(useResponseFormat ? { response_format: { type: "json_object" as const } } : {}),
+    ...temperatureOption(),
+  }, onUsage);
+
+  return response.choices[0]?.message.content || "";
+}
+
+/**
+ * Send a chat completion request through the shared scheduler
+ * @param params The request parameters
+ * @param onUsage Receives the tokens used by the request
+ * @returns Promise<ChatCompletion> The completion
+ */
+async function createCompletion(
+  params: ChatCompletionCreateParamsNonStreaming,
+  onUsage?: UsageRecorder
+): Promise<ChatCompletion> {
+  const response = await scheduler.run(
+    estimateTokens(params.messages),
+    () => openai.chat.completions.create(params),
+    response => response.usage?.total_tokens
+  );
+
+  onUsage?.(params.model, response.usage);
+  return response;
+}
+
+/**
+ * Estimate the tokens a request will use, at about four characters per token
+ * @param messages The chat messages
+ * @returns number Estimated prompt and reply tokens
+ */
+function estimateTokens(messages: ChatCompletionMessageParam[]): number {
+  const characters = messages.reduce(
+    (sum, message) => sum + (typeof message.content === "string" ? message.content.length : 0),
+    0
+  );
+  return Math.ceil(characters / 4) + REPLY_TOKEN_ESTIMATE;
+}
+
+/**
+ * Build the temperature option for a request
+ * @returns The configured temperature, or nothing to use the server default
+ */
+function temperatureOption(): { temperature?: number } {
+  return config.openai.temperature !== undefined ? { temperature: config.openai.temperature } : {};
+}
+
+/**
+ * Parse and validate a model reply
+ * @param content The reply text
+ * @param schema Zod schema the reply must match
+ * @returns The validated reply, or a description of what is wrong with it
+ */
+function validateReply<T>(
+  content: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): { success: true; data: T } | { success: false; error: string } {
+  let reply: unknown;
+  try {
+    reply = parseJSONReply(content);
+  } catch (error) {
+    return { success: false, error: "the reply is not valid JSON" };
+  }
+
+  const result = schema.safeParse(reply);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: fromZodError(result.error).message };
+}
+
+/**
+ * Parse a JSON object from a model reply, tolerating code fences and surrounding text
+ * @param content The reply text
+ * @returns unknown The parsed JSON, to be checked against the expected schema
+ */
+export function parseJSONReply(content: string): unknown {
+  const unfenced = content.replace(/```(?:json)?/gi, "").trim();
+
+  try {
+    return JSON.parse(unfenced);
+  } catch (error) {
+    // Fall back to the outermost braces when the model added text around the object
+    const start = unfenced.indexOf("{");
+    const end = unfenced.lastIndexOf("}");
+    if (start >= 0 && end > start) {
+      return JSON.parse(unfenced.substring(start, end + 1));
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,149 @@
+import { APIError } from "openai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RequestScheduler, SchedulerLimits } from "./requestScheduler";
+
+const limits: SchedulerLimits = {
+  concurrency: 2,
+  requestsPerMinute: 0,
+  tokensPerMinute: 0,
+  maxAttempts: 3,
+  retryDelayMs: 1000,
+};
+
+/**
+ * Build an error like the ones the OpenAI client throws
+ * @param status HTTP status of the response
+ * @param headers Response headers
+ * @returns APIError The error
+ */
+function apiError(status: number, headers: Record<string, string> = {}): APIError {
+  return new APIError(status, undefined, `Request failed with status ${status}`, headers);
+}
+
+/**
+ * Build a task that fails with the given errors, then succeeds
+ * @param errors Errors thrown by the first attempts
+ * @returns A mock task that resolves to "ok"
+ */
+function failingTask(...errors: Error[]) {
+  const task = vi.fn(async () => "ok");
+  errors.forEach(error => task.mockRejectedValueOnce(error));
+  return task;
+}
+
+describe("RequestScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("waits for the Retry-After time after a rate limit and holds back other requests", async () => {
+    const scheduler = new RequestScheduler(limits);
+    const limited = failingTask(apiError(429, { "retry-after": "5" }));
+    const other = vi.fn(async () => "other");
+
+    const first = scheduler.run(100, limited);
+    await vi.advanceTimersByTimeAsync(0);
+    const second = scheduler.run(100, other);
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(limited).toHaveBeenCalledTimes(1);
+    expect(other).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(first).resolves.toBe("ok");
+    await expect(second).resolves.toBe("other");
+    expect(limited).toHaveBeenCalledTimes(2);
+  });
+
+  it("doubles the retry delay after each failure when the server gives no Retry-After", async () => {
+    const scheduler = new RequestScheduler(limits);
+    const task = failingTask(apiError(429), apiError(429));
+
+    const result = scheduler.run(100, task);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("ok");
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries server errors without pausing other requests", async () => {
+    const scheduler = new RequestScheduler(limits);
+    const failing = failingTask(apiError(503));
+    const other = vi.fn(async () => "other");
+
+    const first = scheduler.run(100, failing);
+    await vi.advanceTimersByTimeAsync(0);
+    await expect(scheduler.run(100, other)).resolves.toBe("other");
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(first).resolves.toBe("ok");
+  });
+
+  it("gives the slot back while a failed request backs off", async () => {
+    const scheduler = new RequestScheduler({ ...limits, concurrency: 1 });
+    const failing = failingTask(apiError(503));
+    const other = vi.fn(async () => "other");
+
+    const first = scheduler.run(100, failing);
+    await vi.advanceTimersByTimeAsync(0);
+    const second = scheduler.run(100, other);
+
+    // The second request finishes while the first waits out its backoff
+    await vi.advanceTimersByTimeAsync(0);
+    await expect(second).resolves.toBe("other");
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(first).resolves.toBe("ok");
+    expect(failing).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry client errors", async () => {
+    const scheduler = new RequestScheduler(limits);
+    const task = failingTask(apiError(400));
+
+    await expect(scheduler.run(100, task)).rejects.toThrow("status 400");
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after the last attempt", async () => {
+    const scheduler = new RequestScheduler(limits);
+    const task = failingTask(apiError(429), apiError(429), apiError(429));
+
+    const result = scheduler.run(100, task);
+    const rejection = expect(result).rejects.toThrow("status 429");
+    await vi.advanceTimersByTimeAsync(3000);
+
+    await rejection;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("starts no more requests at once than the concurrency limit", async () => {
+    const scheduler = new RequestScheduler({ ...limits, concurrency: 1 });
+    let finishFirst: (value: string) => void = () => {};
+    const first = vi.fn(() => new Promise<string>(resolve => { finishFirst = resolve; }));
+    const second = vi.fn(async () => "second");
+
+    const firstResult = scheduler.run(100, first);
+    const secondResult = scheduler.run(100, second);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(second).not.toHaveBeenCalled();
+
+    finishFirst("first");
+    await expect(firstResult).resolves.toBe("first");
+    await expect(secondResult).resolves.toBe("second");
+  });
+});
@@ -0,0 +1,195 @@
+import OpenAI from "openai";
+
+// Limits shared by every request that goes through a scheduler
+export interface SchedulerLimits {
+  concurrency: number;        // Requests in flight at once
+  requestsPerMinute: number;  // 0 disables the budget
+  tokensPerMinute: number;    // 0 disables the budget
+  maxAttempts: number;        // Attempts per request, including retries
+  retryDelayMs: number;       // Doubled after each failed attempt
+}
+
+// A started request, counted against the per-minute budgets
+interface WindowEntry {
+  startedAt: number;
+  tokens: number;
+}
+
+// A request waiting for a slot
+interface QueuedRequest {
+  tokens: number;
+  start: (entry: WindowEntry) => void;
+}
+
+const WINDOW_MS = 60000;
+
+/**
+ * Runs requests with limited concurrency, per-minute request and token budgets,
+ * and exponential backoff on rate limits and server errors
+ */
+export class RequestScheduler {
+  private active = 0;
+  private queue: QueuedRequest[] = [];
+  private window: WindowEntry[] = [];
+  private pausedUntil = 0;  // Set by a rate limit response; holds back every queued request
+  private timer?: NodeJS.Timeout;
+
+  constructor(private limits: SchedulerLimits) {}
+
+  /**
+   * Run a request once a slot and enough budget are available, retrying it when it fails with a retryable error
+   * @param estimatedTokens Tokens the request is expected to use
+   * @param task Sends the request
+   * @param countTokens Reads the tokens actually used from the result, replacing the estimate
+   * @returns Promise<T> The result of the request
+   */
+  async run<T>(
+    estimatedTokens: number,
+    task: () => Promise<T>,
+    countTokens?: (result: T) => number | undefined
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const entry = await this.acquire(estimatedTokens);
+      let backoff = 0;
+      try {
+        const result = await task();
+        entry.tokens = countTokens?.(result) ?? entry.tokens;
+        return result;
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= this.limits.maxAttempts) throw error;
+
+        const wait = retryAfterMs(error) ?? this.limits.retryDelayMs * 2 ** (attempt - 1);
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Request failed (attempt ${attempt}/${this.limits.maxAttempts}), retrying in ${wait}ms: ${message}`);
+
+        if (isRateLimit(error)) {
+          // The rate limit applies to every request, so hold back the whole queue
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + wait);
+        } else {
+          backoff = wait;
+        }
+      } finally {
+        this.release();
+      }
+
+      // The slot is given back before the backoff, so other requests run in the meantime
+      if (backoff > 0) await delay(backoff);
+    }
+  }
+
+  /**
+   * Wait for a slot and enough budget to start a request
+   * @param tokens Tokens the request is expected to use
+   * @returns Promise<WindowEntry> The request's entry in the per-minute window
+   */
+  private acquire(tokens: number): Promise<WindowEntry> {
+    return new Promise(resolve => {
+      this.queue.push({ tokens, start: resolve });
+      this.drain();
+    });
+  }
+
+  /**
+   * Free the slot of a finished request
+   */
+  private release(): void {
+    this.active--;
+    this.drain();
+  }
+
+  /**
+   * Start queued requests, in order, while slots and budget are available
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (this.queue.length > 0 && this.active < this.limits.concurrency) {
+      const now = Date.now();
+      const wait = this.waitTime(this.queue[0].tokens, now);
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.drain(), wait);
+        return;
+      }
+
+      const request = this.queue.shift()!;
+      const entry = { startedAt: now, tokens: request.tokens };
+      this.window.push(entry);
+      this.active++;
+      request.start(entry);
+    }
+  }
+
+  /**
+   * Work out how long a request must wait for the per-minute budgets
+   * @param tokens Tokens the request is expected to use
+   * @param now The current time
+   * @returns number Milliseconds to wait, or 0 to start now
+   */
+  private waitTime(tokens: number, now: number): number {
+    this.window = this.window.filter(entry => now - entry.startedAt < WINDOW_MS);
+    let wait = Math.max(0, this.pausedUntil - now);
+
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    if (requestsPerMinute > 0 && this.window.length >= requestsPerMinute) {
+      const expiring = this.window[this.window.length - requestsPerMinute];
+      wait = Math.max(wait, expiring.startedAt + WINDOW_MS - now);
+    }
+
+    if (tokensPerMinute > 0) {
+      // Wait for the oldest requests to leave the window until the new one fits;
+      // a request larger than the whole budget waits for an empty window
+      let used = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+      for (const entry of this.window) {
+        if (used + tokens <= tokensPerMinute) break;
+        used -= entry.tokens;
+        wait = Math.max(wait, entry.startedAt + WINDOW_MS - now);
+      }
+    }
+
+    return wait;
+  }
+}
+
+/**
+ * Decide whether a failed request is worth retrying
+ * @param error The error thrown by the request
+ * @returns boolean True for rate limits, server errors and connection problems
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof OpenAI.APIError && error.status !== undefined) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+/**
+ * Decide whether a failed request hit a rate limit
+ * @param error The error thrown by the request
+ * @returns boolean True for 429 responses
+ */
+function isRateLimit(error: unknown): boolean {
+  return error instanceof OpenAI.APIError && error.status === 429;
+}
+
+/**
+ * Read the server's requested wait from a Retry-After header
+ * @param error The error thrown by the request
+ * @returns number | undefined Milliseconds to wait, if the server said
+ */
+function retryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof OpenAI.APIError)) return undefined;
+
+  const seconds = parseFloat(error.headers?.["retry-after"] || "");
+  return isNaN(seconds) ? undefined : Math.ceil(seconds * 1000);
+}
+
+/**
+ * Wait before retrying a request
+ * @param ms Milliseconds to wait
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { Requirement } from "@shared/schema";
+import { parseRequirementBlocks } from "./requirementImporter";
+
+// A page of the GE SLO document as the PDF extractor returns it, spacing artifacts included
+const documentPage = "1  FRESHMEN SEMINAR  Seminar Goals and Requirements   SLOs  Seminar Goal:   Students will join a community of learners and actively  engage in academic and co - curricular exploration.  Bulletin - Related Requirements:   Freshmen are required to pass this  course.  Students completing Freshman Seminar will be able to:  1.   Identify assumptions rooted in a variety of perspectives.  2.   Interpret and evaluate issues, evidence, and sources.  3.   Communicate effectively about multiple perspectives.  QUANTITATIVE   REASONING  Course Requirements   SLOs  Course Content Requirements:  Students must use mathematical, statistical, and/or computational  methods to analyze and solve problems.  Bulletin - Related Requirements :  MATH 1312 or higher  Students completing the General Education Quantitative Reasoning  requirement will be able to:  1.   Interpret quantitative information.  2.   Use quantitative methods to solve problems.  3.   Develop conclusions based on quantitative analysis.";
+
+/**
+ * Build a stored requirement of a base catalog
+ * @param overrides Fields of the requirement
+ * @returns Requirement The requirement
+ */
+function baseRequirement(overrides: Partial<Requirement>): Requirement {
+  return {
+    id: 1,
+    catalogVersionId: 1,
+    name: "Requirement",
+    description: "Current description",
+    slos: ["Current SLO."],
+    keywords: ["keyword"],
+    requiredElements: ["Element"],
+    category: "core",
+    color: "neutral",
+    rules: [],
+    bulletinConstraints: [],
+    elementThreshold: 0.6,
+    sloThreshold: 0.6,
+    ...overrides,
+  };
+}
+
+describe("parseRequirementBlocks", () => {
+  it("reads the headings, descriptions, SLOs and bulletin constraints of the document", () => {
+    const blocks = parseRequirementBlocks(documentPage);
+
+    expect(blocks.map(block => block.heading)).toEqual(["FRESHMEN SEMINAR", "QUANTITATIVE REASONING"]);
+
+    const [seminar, quantitative] = blocks;
+    expect(seminar.requirement).toMatchObject({
+      name: "Freshmen Seminar",
+      description: "Students will join a community of learners and actively engage in academic and co-curricular exploration.",
+      category: "core",
+      slos: [
+        "Identify assumptions rooted in a variety of perspectives.",
+        "Interpret and evaluate issues, evidence, and sources.",
+        "Communicate effectively about multiple perspectives.",
+      ],
+      bulletinConstraints: [],
+    });
+    expect(seminar.bulletinRequirements).toBe("Freshmen are required to pass this course.");
+    expect(seminar.warnings).toContain("Bulletin requirements could not be turned into course code checks; add them by hand if needed");
+
+    expect(quantitative.requirement.slos).toHaveLength(3);
+    expect(quantitative.requirement.bulletinConstraints).toEqual([
+      { description: "MATH 1312 or higher", subjectPrefixes: ["MATH"], minCourseNumber: 1312 },
+    ]);
+    expect(quantitative.warnings).toContain("New requirement: keywords and required elements must be added before publishing");
+  });
+
+  it("keeps the base catalog's name and the fields the document does not contain", () => {
+    const base = baseRequirement({ name: "Quantitative Reasoning", keywords: ["statistics"], requiredElements: ["Problem sets"] });
+
+    const quantitative = parseRequirementBlocks(documentPage, [base])[1];
+
+    expect(quantitative.requirement).toMatchObject({
+      name: "Quantitative Reasoning",
+      keywords: ["statistics"],
+      requiredElements: ["Problem sets"],
+      slos: ["Interpret quantitative information.", "Use quantitative methods to solve problems.", "Develop conclusions based on quantitative analysis."],
+    });
+    expect(quantitative.warnings).toEqual([]);
+  });
+
+  it("keeps the current SLOs of a block whose SLOs are not numbered", () => {
+    const text = "WRITING RICH MISSION MARKERS  Course Requirements   SLOs  Course Content Requirements:  Students write and revise throughout the course.";
+    const base = baseRequirement({ name: "Writing Rich", slos: ["Write for an audience."] });
+
+    const [block] = parseRequirementBlocks(text, [base]);
+
+    expect(block.requirement.slos).toEqual(["Write for an audience."]);
+    expect(block.warnings).toContain("No numbered SLOs were found; the current SLOs were kept");
+    expect(parseRequirementBlocks(text)[0].requirement.slos).toEqual([]);
+  });
+
+  it("returns no blocks for text without requirement headings", () => {
+    expect(parseRequirementBlocks("General Education outcomes are reviewed every year by the committee.")).toEqual([]);
+  });
+
+  it("flags a malformed block instead of guessing", () => {
+    // No description label, SLO numbering that skips from 1 to 3, and an unrecognized bulletin phrase
+    const text = "GLOBAL PERSPECTIVES  Course Requirements   SLOs  Bulletin - Related Requirements:  See advisor.  Students completing the requirement will be able to:  1.   Compare cultures.  3.   Explain global systems.";
+
+    const [block] = parseRequirementBlocks(text);
+
+    expect(block.requirement.name).toBe("Global Perspectives");
+    expect(block.requirement.description).toBe("");
+    expect(block.requirement.slos).toHaveLength(1);
+    expect(block.requirement.slos[0]).toMatch(/^Compare cultures\./);
+    expect(block.warnings).toEqual([
+      "No description was found; add one before publishing",
+      "Bulletin requirements could not be turned into course code checks; add them by hand if needed",
+      "New requirement: keywords and required elements must be added before publishing",
+    ]);
+  });
+});
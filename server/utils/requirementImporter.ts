@@ -0,0 +1,313 @@
+import { Requirement, RequirementDefinition } from "@shared/schema";
+import { extractTextFromDocument } from "./documentParser";
+import { parseBulletinConstraints } from "./bulletinConstraints";
+
+// A requirement block parsed from the official GE SLO document
+export interface ParsedRequirementBlock {
+  heading: string;                 // Heading as printed in the document, e.g. "QUANTITATIVE REASONING"
+  requirement: RequirementDefinition;
+  bulletinRequirements?: string;   // Text of the "Bulletin-Related Requirements" section, if any
+  warnings: string[];              // Anything the reviewing admin should double-check
+}
+
+// Column labels printed right after every requirement heading in the document
+const HEADING_REGEX = /(?:^|\s)([A-Z]{2,}(?: (?:[A-Z]{2,}|\d{1,2}))*) (?=Course Requirements|SLOs|Additional Information|Seminar Goals)/g;
+
+// Labeled sections that can appear inside a requirement block
+const SECTION_LABEL_REGEX = /(Seminar Goal(?!s)|Other Course Content Requirements|Course Content Requirements|Bulletin-Related Requirements)\s?:?/g;
+
+// Sentence that introduces the numbered list of SLOs
+const SLO_INTRO_REGEX = /Students completing[^:]*?will be able to(?: do ONE of the following)?\s?:/;
+
+// Numbered outcome written as a sentence about students, used when there is no SLO introduction
+const STUDENT_OUTCOME_REGEX = /(?:^|\s)(\d)\.\s+Students\s+(\w)(.*?(?<!\bSt)\.)(?=\s|$)/g;
+
+// Words kept lowercase when converting headings to title case
+const SMALL_WORDS = ["and", "for", "in", "of", "the"];
+
+/**
+ * Import a draft requirements catalog from the official GE SLO document
+ * @param filePath Path to the document file
+ * @param fileType File extension (.pdf, .doc, .docx)
+ * @param baseRequirements Requirements of the catalog the draft is based on
+ * @returns Promise<ParsedRequirementBlock[]> One parsed block per requirement heading
+ */
+export async function importRequirementsFromDocument(
+  filePath: string,
+  fileType: string,
+  baseRequirements: Requirement[]
+): Promise<ParsedRequirementBlock[]> {
+  const text = await extractTextFromDocument(filePath, fileType);
+  const blocks = parseRequirementBlocks(text, baseRequirements);
+
+  console.log(`Parsed ${blocks.length} requirement blocks from ${filePath}`);
+  return blocks;
+}
+
+/**
+ * Split the GE SLO document text into requirement blocks
+ * @param documentText The extracted text of the document
+ * @param baseRequirements Requirements used to canonicalize names and fill fields the document does not contain
+ * @returns ParsedRequirementBlock[] One parsed block per requirement heading
+ */
+export function parseRequirementBlocks(
+  documentText: string,
+  baseRequirements: Requirement[] = []
+): ParsedRequirementBlock[] {
+  const text = normalizeDocumentText(documentText);
+
+  const headings: { heading: string; start: number; end: number }[] = [];
+  let match;
+  HEADING_REGEX.lastIndex = 0;
+  while ((match = HEADING_REGEX.exec(text)) !== null) {
+    const start = match.index + match[0].indexOf(match[1]);
+    headings.push({ heading: match[1], start, end: start + match[1].length });
+  }
+
+  return headings.map((heading, index) => {
+    const blockEnd = index + 1 < headings.length ? headings[index + 1].start : text.length;
+    return parseBlock(heading.heading, text.substring(heading.end, blockEnd), baseRequirements);
+  });
+}
+
+/**
+ * Parse a single requirement block
+ * @param heading The heading of the block
+ * @param body The text between this heading and the next one
+ * @param baseRequirements Requirements of the catalog the draft is based on
+ * @returns ParsedRequirementBlock
+ */
+function parseBlock(heading: string, body: string, baseRequirements: Requirement[]): ParsedRequirementBlock {
+  const warnings: string[] = [];
+  const sections = extractLabeledSections(body);
+  const slos = extractNumberedSLOs(body);
+
+  const baseRequirement = findBaseRequirement(heading, baseRequirements);
+  const name = baseRequirement?.name || toTitleCase(heading);
+
+  const parsedDescription = sections["Seminar Goal"] ||
+    [sections["Course Content Requirements"], sections["Other Course Content Requirements"]]
+      .filter(Boolean)
+      .join(" ");
+
+  // Structured constraints recognized in the bulletin text, e.g. "MATH 1312 or higher"
+  const bulletinText = sections["Bulletin-Related Requirements"];
+  const bulletinConstraints = bulletinText ? parseBulletinConstraints(bulletinText) : [];
+
+  // "will be able to do ONE of the following" means a single SLO is enough
+  const oneOfThreshold = /do ONE of the following/.test(body) && slos.length > 0 ? 1 / slos.length : undefined;
+
+  if (slos.length === 0) {
+    warnings.push(baseRequirement
+      ? "No numbered SLOs were found; the current SLOs were kept"
+      : "No numbered SLOs were found");
+  }
+  if (!parsedDescription && !baseRequirement) {
+    warnings.push("No description was found; add one before publishing");
+  }
+  if (bulletinText && bulletinConstraints.length === 0) {
+    warnings.push("Bulletin requirements could not be turned into course code checks; add them by hand if needed");
+  }
+  if (!baseRequirement) {
+    warnings.push("New requirement: keywords and required elements must be added before publishing");
+  }
+
+  return {
+    heading,
+    requirement: {
+      name,
+      description: parsedDescription || baseRequirement?.description || "",
+      slos: slos.length > 0 ? slos : baseRequirement?.slos || [],
+      // The document does not list keywords or required elements, so keep the current ones
+      keywords: baseRequirement?.keywords || [],
+      requiredElements: baseRequirement?.requiredElements || [],
+      category: baseRequirement?.category || (/MISSION MARKER/.test(heading) ? "mission_marker" : "core"),
+      color: baseRequirement?.color,
+      rules: baseRequirement?.rules || [],
+      bulletinConstraints: bulletinConstraints.length > 0
+        ? bulletinConstraints
+        : baseRequirement?.bulletinConstraints || [],
+      elementThreshold: baseRequirement?.elementThreshold,
+      sloThreshold: baseRequirement?.sloThreshold ?? oneOfThreshold,
+    },
+    bulletinRequirements: bulletinText,
+    warnings,
+  };
+}
+
+/**
+ * Normalize extraction artifacts: page numbers, runs of spaces and spaced-out hyphens
+ * @param documentText The extracted text of the document
+ * @returns string Normalized text with pages separated by blank lines
+ */
+function normalizeDocumentText(documentText: string): string {
+  return documentText
+    .split(/\n\s*\n/)
+    .map(page => page
+      .replace(/^\s*\d+\s{2,}/, "")           // Page number at the top of each page
+      .replace(/[ \t ]+/g, " ")
+      .replace(/(\w) - (\w)/g, "$1-$2")       // "co - curricular" -> "co-curricular"
+      .trim())
+    .filter(page => page.length > 0)
+    .join("\n\n");
+}
+
+/**
+ * Extract the text of each labeled section in a block
+ * @param body The block text
+ * @returns Record<string, string> Section text keyed by label
+ */
+function extractLabeledSections(body: string): Record<string, string> {
+  const sections: Record<string, string> = {};
+  const labels: { label: string; start: number; end: number }[] = [];
+
+  let match;
+  SECTION_LABEL_REGEX.lastIndex = 0;
+  while ((match = SECTION_LABEL_REGEX.exec(body)) !== null) {
+    labels.push({ label: match[1], start: match.index, end: match.index + match[0].length });
+  }
+
+  const sloIntro = body.match(SLO_INTRO_REGEX);
+  const sloIntroStart = sloIntro?.index ?? body.length;
+
+  labels.forEach((label, index) => {
+    // A section runs until the next label or the SLO introduction, whichever comes first
+    const candidates = [
+      index + 1 < labels.length ? labels[index + 1].start : body.length,
+      sloIntroStart > label.end ? sloIntroStart : body.length,
+      body.indexOf("Student Learning Outcomes:", label.end) >= 0
+        ? body.indexOf("Student Learning Outcomes:", label.end)
+        : body.length,
+    ];
+    const sectionText = body.substring(label.end, Math.min(...candidates)).replace(/\s+/g, " ").trim();
+
+    if (sectionText) {
+      sections[label.label] = sections[label.label]
+        ? `${sections[label.label]} ${sectionText}`
+        : sectionText;
+    }
+  });
+
+  return sections;
+}
+
+/**
+ * Extract the numbered SLOs that follow the "will be able to" introduction
+ * @param body The block text
+ * @returns string[] SLO texts in order
+ */
+function extractNumberedSLOs(body: string): string[] {
+  const intro = body.match(SLO_INTRO_REGEX);
+  if (!intro || intro.index === undefined) return extractStudentOutcomeSentences(body);
+
+  const listText = body.substring(intro.index + intro[0].length);
+  const slos: string[] = [];
+
+  let position = 0;
+  for (let number = 1; ; number++) {
+    const itemMatch = new RegExp(`(?:^|\\s)${number}\\.\\s`).exec(listText.substring(position));
+    if (!itemMatch) break;
+
+    const itemStart = position + itemMatch.index + itemMatch[0].length;
+    const rest = listText.substring(itemStart);
+
+    // An item ends at the next number, at a page break, or at the end of the block
+    const nextItem = new RegExp(`\\s${number + 1}\\.\\s`).exec(rest);
+    const pageBreak = rest.indexOf("\n\n");
+    const itemEnd = Math.min(
+      nextItem ? nextItem.index : rest.length,
+      pageBreak >= 0 ? pageBreak : rest.length
+    );
+
+    const slo = cleanSLO(rest.substring(0, itemEnd));
+    if (slo) slos.push(slo);
+
+    if (!nextItem || (pageBreak >= 0 && pageBreak < nextItem.index)) break;
+    position = itemStart + nextItem.index;
+  }
+
+  return slos;
+}
+
+/**
+ * Extract outcomes written as numbered "Students ..." sentences, as in some mission marker blocks
+ * @param body The block text
+ * @returns string[] SLO texts in order, rewritten to start with the verb
+ */
+function extractStudentOutcomeSentences(body: string): string[] {
+  const slos: string[] = [];
+  const text = body.replace(/\s+/g, " ");
+
+  let match;
+  STUDENT_OUTCOME_REGEX.lastIndex = 0;
+  while ((match = STUDENT_OUTCOME_REGEX.exec(text)) !== null) {
+    // Only accept the outcomes in sequence so unrelated numbered lists are ignored
+    if (parseInt(match[1]) !== slos.length + 1) continue;
+    slos.push(cleanSLO(match[2].toUpperCase() + match[3]));
+  }
+
+  return slos;
+}
+
+/**
+ * Clean up a single SLO: collapse whitespace, drop trailing competency labels and end with a period
+ * @param slo Raw SLO text
+ * @returns string Cleaned SLO text
+ */
+function cleanSLO(slo: string): string {
+  let cleaned = slo.replace(/\s+/g, " ").trim();
+
+  // Drop trailing labels such as "(Knowledge)" or "(Interpretive competence - reading ...)"
+  cleaned = cleaned.replace(/\s*\([^()]*\)\s*$/, "").trim();
+
+  if (cleaned && /[A-Za-z0-9]$/.test(cleaned)) {
+    cleaned += ".";
+  }
+
+  return cleaned;
+}
+
+/**
+ * Find the requirement in the base catalog that a document heading refers to
+ * @param heading The heading as printed in the document
+ * @param baseRequirements Requirements of the base catalog
+ * @returns Requirement | undefined The matching requirement, if any
+ */
+function findBaseRequirement(heading: string, baseRequirements: Requirement[]): Requirement | undefined {
+  const normalizedHeading = normalizeName(heading);
+
+  const exactMatch = baseRequirements.find(req => normalizeName(req.name) === normalizedHeading);
+  if (exactMatch) return exactMatch;
+
+  // Headings sometimes add words, e.g. "MISSION MARKERS" or "... MISSION MARKER" suffixes
+  return baseRequirements
+    .filter(req => {
+      const normalizedName = normalizeName(req.name);
+      return normalizedHeading.startsWith(normalizedName) || normalizedName.startsWith(normalizedHeading);
+    })
+    .sort((a, b) => b.name.length - a.name.length)[0];
+}
+
+/**
+ * Normalize a requirement name for comparison
+ * @param name Requirement name or heading
+ * @returns string Lowercase name with single spaces
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Convert an all-caps heading to title case
+ * @param heading The heading as printed in the document
+ * @returns string Title-cased name
+ */
+function toTitleCase(heading: string): string {
+  return heading
+    .toLowerCase()
+    .split(" ")
+    .map((word, index) => index > 0 && SMALL_WORDS.includes(word)
+      ? word
+      : word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { RequirementRule } from "@shared/schema";
+import { combineFailedRules, describeRulesForPrompt } from "./requirementRules";
+
+const prefixRule: RequirementRule = {
+  type: "coursePrefix",
+  description: "Must be a philosophy course",
+  rejectionMessage: "Course is not offered by the Philosophy department",
+  prefixes: ["PHIL"],
+};
+
+const termsRule: RequirementRule = {
+  type: "requiredTerms",
+  description: "Must address ethical reasoning",
+  rejectionMessage: "Does not address ethical reasoning",
+  terms: ["ethics"],
+  match: "any",
+};
+
+const syllabus = "PHIL 2306 Introduction to Ethics\nWe study moral arguments.";
+
+describe("combineFailedRules", () => {
+  it("ignores a prefix rule the AI reports as failed when the course code passes it", () => {
+    expect(combineFailedRules([prefixRule, termsRule], [1], syllabus, "PHIL 2306")).toEqual([]);
+  });
+
+  it("fails a prefix rule from the course code even when the AI does not report it", () => {
+    expect(combineFailedRules([prefixRule, termsRule], [], syllabus, "HIST 1301")).toEqual([prefixRule]);
+  });
+
+  it("keeps the rules the AI judges", () => {
+    expect(combineFailedRules([prefixRule, termsRule], [2, 7, "x"], syllabus, "PHIL 2306")).toEqual([termsRule]);
+  });
+});
+
+describe("describeRulesForPrompt", () => {
+  it("leaves out rules decided from the course code and keeps the other rules' numbers", () => {
+    const prompt = describeRulesForPrompt([{ name: "Ethics", rules: [prefixRule, termsRule] }]);
+
+    expect(prompt).not.toContain("Rule 1");
+    expect(prompt).not.toContain("PHIL");
+    expect(prompt).toContain("- Rule 2: Must address ethical reasoning");
+  });
+
+  it("leaves out requirements whose rules are all decided from the course code", () => {
+    expect(describeRulesForPrompt([{ name: "Ethics", rules: [prefixRule] }])).toBe("");
+  });
+});
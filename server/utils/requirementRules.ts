@@ -0,0 +1,334 @@
+import { Assessment, CourseSchedule, RequirementRule } from "@shared/schema";
+import { isRevised } from "./assessmentParser";
+import { activityShare } from "./scheduleParser";
+
+// A requirement as seen by the rule evaluators
+interface RuledRequirement {
+  name: string;
+  rules: RequirementRule[];
+}
+
+// Structure parsed from the syllabus that rules can be measured against
+export interface ParsedSyllabus {
+  schedule?: CourseSchedule;
+  assessments?: Assessment[];
+}
+
+// Rules that can be checked exactly from the course code, so both analyzers check them in code
+const DETERMINISTIC_RULE_TYPES: RequirementRule["type"][] = ["coursePrefix"];
+
+// Number words used when a syllabus states how many assessments are required
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8,
+};
+
+/**
+ * Check whether a rule is decided in code instead of by the AI analyzer
+ * @param rule The rule to check
+ * @returns boolean True if the rule only depends on the course code
+ */
+export function isDeterministicRule(rule: RequirementRule): boolean {
+  return DETERMINISTIC_RULE_TYPES.includes(rule.type);
+}
+
+/**
+ * Check whether a rule is measured from the parsed schedule or assessments instead of being judged
+ * @param rule The rule to check
+ * @param parsed The parsed schedule and assessments
+ * @returns boolean True for rules with activity or assessment types when the syllabus has what they count
+ */
+export function isMeasuredRule(rule: RequirementRule, parsed: ParsedSyllabus = {}): boolean {
+  return measuredShare(rule, parsed.schedule) !== undefined || measuredCount(rule, parsed.assessments) !== undefined;
+}
+
+/**
+ * Find the rules a syllabus fails using keyword heuristics, or the schedule and assessments where they were parsed
+ * @param rules The rules of the requirement
+ * @param syllabusText The extracted text from the syllabus
+ * @param courseCode The course code identified for the syllabus
+ * @param parsed The parsed schedule and assessments
+ * @returns RequirementRule[] The rules the syllabus does not satisfy
+ */
+export function findFailedRules(
+  rules: RequirementRule[],
+  syllabusText: string,
+  courseCode: string,
+  parsed: ParsedSyllabus = {}
+): RequirementRule[] {
+  return rules.filter(rule => !evaluateRule(rule, syllabusText, courseCode, parsed));
+}
+
+/**
+ * Find the rules a syllabus fails that are decided in code: deterministic rules and measured rules
+ * @param rules The rules of the requirement
+ * @param syllabusText The extracted text from the syllabus
+ * @param courseCode The course code identified for the syllabus
+ * @param parsed The parsed schedule and assessments
+ * @returns RequirementRule[] The rules decided in code that the syllabus does not satisfy
+ */
+export function findFailedDeterministicRules(
+  rules: RequirementRule[],
+  syllabusText: string,
+  courseCode: string,
+  parsed: ParsedSyllabus = {}
+): RequirementRule[] {
+  const decided = rules.filter(rule => isDeterministicRule(rule) || isMeasuredRule(rule, parsed));
+  return findFailedRules(decided, syllabusText, courseCode, parsed);
+}
+
+/**
+ * Combine the rules the AI reported as failed with the failed rules decided in code
+ * @param rules The rules of the requirement
+ * @param reportedRuleNumbers Rule numbers the AI reported as failed
+ * @param syllabusText The extracted text from the syllabus
+ * @param courseCode The course code identified for the syllabus
+ * @param parsed The parsed schedule and assessments
+ * @returns RequirementRule[] The rules the syllabus fails; the AI's verdict is ignored for rules decided in code
+ */
+export function combineFailedRules(
+  rules: RequirementRule[],
+  reportedRuleNumbers: unknown,
+  syllabusText: string,
+  courseCode: string,
+  parsed: ParsedSyllabus = {}
+): RequirementRule[] {
+  const judged = rulesByNumber(rules, reportedRuleNumbers)
+    .filter(rule => !isDeterministicRule(rule) && !isMeasuredRule(rule, parsed));
+  return [...judged, ...findFailedDeterministicRules(rules, syllabusText, courseCode, parsed)];
+}
+
+/**
+ * Describe the special criteria of a batch of requirements for the AI prompt
+ * @param requirements The requirements in the batch
+ * @param parsed The parsed schedule and assessments; measured values are given instead of asking for a guess
+ * @returns string Prompt section listing each requirement's numbered rules, or an empty string
+ */
+export function describeRulesForPrompt(requirements: RuledRequirement[], parsed: ParsedSyllabus = {}): string {
+  // Rules decided from the course code are left out, keeping the numbers of the others,
+  // so the model cannot reject a requirement for a course code that passes them
+  const ruled = requirements
+    .map(req => ({
+      name: req.name,
+      ruleLines: req.rules
+        .map((rule, ruleIndex) => isDeterministicRule(rule) ? "" : `- Rule ${ruleIndex + 1}: ${describeRule(rule, parsed)}`)
+        .filter(Boolean),
+    }))
+    .filter(req => req.ruleLines.length > 0);
+  if (ruled.length === 0) return "";
+
+  const sections = ruled.map((req, index) =>
+    `${index + 1}. ${req.name.toUpperCase()} REQUIREMENT:\n${req.ruleLines.join("\n")}\n- If any of these rules is not satisfied, mark "${req.name}" as NOT MET regardless of other criteria and list the rule number in "failedRules".`
+  );
+
+  return `SPECIAL CRITERIA FOR SPECIFIC REQUIREMENTS:
+
+${sections.join("\n\n")}
+
+Be strict in applying these special criteria. Do not mark a requirement as MET unless it fully satisfies its specific criteria.
+`;
+}
+
+/**
+ * Look up rules by the 1-indexed numbers the AI reported as failed
+ * @param rules The rules of the requirement
+ * @param ruleNumbers Rule numbers reported by the AI
+ * @returns RequirementRule[] The matching rules, ignoring unknown numbers
+ */
+export function rulesByNumber(rules: RequirementRule[], ruleNumbers: unknown): RequirementRule[] {
+  if (!Array.isArray(ruleNumbers)) return [];
+  return ruleNumbers
+    .map(number => rules[Number(number) - 1])
+    .filter((rule): rule is RequirementRule => rule !== undefined);
+}
+
+/**
+ * Add the rejection messages of failed rules to a list of missing requirements
+ * @param missingRequirements Missing requirements reported so far
+ * @param failedRules The rules the syllabus failed
+ * @returns string[] Missing requirements with each rejection message added once
+ */
+export function withRejectionMessages(missingRequirements: string[], failedRules: RequirementRule[]): string[] {
+  const messages = failedRules
+    .map(rule => rule.rejectionMessage)
+    .filter(message => !missingRequirements.includes(message));
+  return [...missingRequirements, ...Array.from(new Set(messages))];
+}
+
+/**
+ * Explain a rule in the words given to the AI analyzer
+ * @param rule The rule to describe
+ * @param parsed The parsed schedule and assessments
+ * @returns string The rule description with its parameters
+ */
+function describeRule(rule: RequirementRule, parsed: ParsedSyllabus): string {
+  switch (rule.type) {
+    case "coursePrefix":
+      return `${rule.description} (course code must start with ${rule.prefixes.join(" or ")})`;
+    case "minContentProportion": {
+      const share = measuredShare(rule, parsed.schedule);
+      const measured = share !== undefined
+        ? `; the course schedule gives ${Math.round(share * 100)}% of its sessions to this, which is checked separately`
+        : "";
+      return `${rule.description} (at least ${Math.round(rule.proportion * 100)}% of the course content${measured})`;
+    }
+    case "languageOfInstruction":
+      return `${rule.description} (accepted languages: ${rule.languages.join(", ")})`;
+    case "requiredTerms":
+      return rule.description;
+    case "prerequisite":
+      return `${rule.description} (${rule.required ? "must" : "must not"} list ${rule.courses.join(" or ")} as a prerequisite)`;
+    case "minAssessmentCount": {
+      const count = measuredCount(rule, parsed.assessments);
+      const measured = count !== undefined
+        ? `; the syllabus's assessments include ${count} that count, which is checked separately`
+        : "";
+      return `${rule.description} (at least ${rule.minCount} graded${measured})`;
+    }
+  }
+}
+
+/**
+ * Check a single rule with keyword heuristics, or the schedule and assessments where they were parsed
+ * @param rule The rule to check
+ * @param syllabusText The extracted text from the syllabus
+ * @param courseCode The course code identified for the syllabus
+ * @param parsed The parsed schedule and assessments
+ * @returns boolean True if the syllabus satisfies the rule
+ */
+function evaluateRule(rule: RequirementRule, syllabusText: string, courseCode: string, parsed: ParsedSyllabus): boolean {
+  const normalizedText = syllabusText.toLowerCase();
+
+  switch (rule.type) {
+    case "coursePrefix": {
+      const code = courseCode.toUpperCase().replace(/\s+/g, " ").trim();
+      if (code) {
+        return rule.prefixes.some(prefix => code.startsWith(prefix.toUpperCase()));
+      }
+      // Without an identified course code, look for a matching code anywhere in the syllabus
+      return rule.prefixes.some(prefix =>
+        new RegExp(`\\b${escapeRegExp(prefix)}\\s*\\d{3,4}`, "i").test(syllabusText));
+    }
+    case "minContentProportion": {
+      // The share of scheduled sessions, when the schedule was parsed
+      const share = measuredShare(rule, parsed.schedule);
+      if (share !== undefined) return share >= rule.proportion;
+
+      // Keyword proxy: count how often the topic indicators occur
+      return countOccurrences(normalizedText, rule.indicators) >= rule.minIndicatorMatches;
+    }
+    case "languageOfInstruction":
+      return rule.languages.some(language =>
+        new RegExp(`\\b${escapeRegExp(language.toLowerCase())}\\b`).test(normalizedText));
+    case "requiredTerms":
+      return rule.match === "all"
+        ? rule.terms.every(term => normalizedText.includes(term.toLowerCase()))
+        : rule.terms.some(term => normalizedText.includes(term.toLowerCase()));
+    case "prerequisite": {
+      const listed = listsPrerequisite(normalizedText, rule.courses);
+      return rule.required ? listed : !listed;
+    }
+    case "minAssessmentCount": {
+      // The parsed assessments, when the syllabus lists any
+      const count = measuredCount(rule, parsed.assessments);
+      if (count !== undefined) return count >= rule.minCount;
+
+      return countGradedAssessments(normalizedText, rule.assessmentTerms) >= rule.minCount;
+    }
+  }
+}
+
+/**
+ * Measure the share of scheduled sessions a content proportion rule counts
+ * @param rule The rule to measure
+ * @param schedule The parsed course schedule, if any
+ * @returns number | undefined Share between 0 and 1, or undefined if the rule cannot be measured
+ */
+function measuredShare(rule: RequirementRule, schedule?: CourseSchedule): number | undefined {
+  if (rule.type !== "minContentProportion" || !rule.activityTypes || !schedule) return undefined;
+  return activityShare(schedule, rule.activityTypes);
+}
+
+/**
+ * Count the parsed assessments an assessment count rule accepts
+ * @param rule The rule to measure
+ * @param assessments The parsed assessments, if any
+ * @returns number | undefined Pieces of work that count, or undefined if the rule cannot be measured
+ */
+function measuredCount(rule: RequirementRule, assessments?: Assessment[]): number | undefined {
+  if (rule.type !== "minAssessmentCount" || !rule.assessmentTypes || !assessments || assessments.length === 0) return undefined;
+
+  const { assessmentTypes, minPages, requiresRevision } = rule;
+  return assessments
+    .filter(assessment => assessmentTypes.includes(assessment.type))
+    .filter(assessment => minPages === undefined || (assessment.pages !== null && assessment.pages >= minPages))
+    .filter(assessment => !requiresRevision || isRevised(assessment))
+    .reduce((total, assessment) => total + assessment.count, 0);
+}
+
+/**
+ * Check whether a prerequisite statement names one of the courses
+ * @param normalizedText Lowercased syllabus text
+ * @param courses Course names to look for
+ * @returns boolean True if one of the courses is listed as a prerequisite
+ */
+function listsPrerequisite(normalizedText: string, courses: string[]): boolean {
+  const statementRegex = /prerequisites?\b[^.\n]{0,120}/g;
+  let match;
+  while ((match = statementRegex.exec(normalizedText)) !== null) {
+    const statement = match[0];
+    if (courses.some(course => new RegExp(`\\b${escapeRegExp(course.toLowerCase())}\\b`).test(statement))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Estimate how many graded assessments of a kind a syllabus requires
+ * @param normalizedText Lowercased syllabus text
+ * @param assessmentTerms Singular terms naming the assessment, e.g. "presentation"
+ * @returns number The stated count, or the number of graded lines mentioning the assessment
+ */
+function countGradedAssessments(normalizedText: string, assessmentTerms: string[]): number {
+  const terms = assessmentTerms.map(term => escapeRegExp(term.toLowerCase())).join("|");
+
+  // Explicit counts such as "three major presentations" or "4 speeches"
+  let statedCount = 0;
+  const countRegex = new RegExp(
+    `\\b(one|two|three|four|five|six|seven|eight|\\d)\\s+(?:(?:major|graded|formal|oral|individual|group)\\s+)*(?:${terms})(?:s|es)?\\b`,
+    "g"
+  );
+  let match;
+  while ((match = countRegex.exec(normalizedText)) !== null) {
+    statedCount = Math.max(statedCount, NUMBER_WORDS[match[1]] ?? parseInt(match[1]));
+  }
+
+  // Grading breakdown lines that mention the assessment alongside a weight
+  const gradedLines = normalizedText
+    .split("\n")
+    .filter(line => new RegExp(`\\b(${terms})`).test(line) && /\d+\s*(%|percent|points|pts)/.test(line));
+
+  return Math.max(statedCount, gradedLines.length);
+}
+
+/**
+ * Count occurrences of any of the phrases in the text
+ * @param normalizedText Lowercased syllabus text
+ * @param phrases Phrases to count
+ * @returns number Total number of occurrences
+ */
+function countOccurrences(normalizedText: string, phrases: string[]): number {
+  return phrases.reduce((total, phrase) => {
+    const matches = normalizedText.match(new RegExp(escapeRegExp(phrase.toLowerCase()), "g"));
+    return total + (matches ? matches.length : 0);
+  }, 0);
+}
+
+/**
+ * Escape a string for use inside a regular expression
+ * @param value The literal string
+ * @returns string The escaped string
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
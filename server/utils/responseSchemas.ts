@@ -0,0 +1,76 @@
+import { z } from "zod";
+
+// SLO numbers are sometimes returned as strings, e.g. "2"
+const sloNumbers = z.array(z.coerce.number().int().positive()).default([]);
+
+// Quotes keyed by SLO number or element name
+const evidenceQuotes = z.record(z.array(z.string())).default({});
+
+// Response to the course information request
+export const courseInfoResponseSchema = z.object({
+  courseName: z.string().nullish(),
+  courseCode: z.string().nullish(),
+});
+
+// Verdict for a single requirement in a batch response
+export const requirementResultSchema = z.object({
+  requirement: z.string(),
+  status: z.preprocess(
+    value => typeof value === "string" ? value.trim().toUpperCase() : value,
+    z.enum(["MET", "NOT MET"])
+  ),
+  matchingElements: z.array(z.string()).default([]),
+  matchingSLOs: sloNumbers,
+  missingElements: z.array(z.string()).default([]),
+  missingSLOs: sloNumbers,
+  failedRules: z.array(z.coerce.number().int().positive()).default([]),
+  elementEvidence: evidenceQuotes,
+  sloEvidence: evidenceQuotes,
+});
+
+export type RequirementResultItem = z.infer<typeof requirementResultSchema>;
+
+/**
+ * Build the schema for a batch response, which must cover every requirement in the batch
+ * @param requirementNames Names of the requirements sent in the batch
+ * @returns Zod schema for the batch response
+ */
+export function requirementsResponseSchema(requirementNames: string[]) {
+  return z.object({
+    results: z.array(requirementResultSchema),
+  }).superRefine((response, ctx) => {
+    const answered = new Set(response.results.map(result => result.requirement));
+    const missing = requirementNames.filter(name => !answered.has(name));
+    if (missing.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["results"],
+        message: `Missing results for: ${missing.join(", ")}`,
+      });
+    }
+  });
+}
+
+// A requirement's fit in the fits response
+const requirementFitSchema = z.object({
+  name: z.string(),
+  matchScore: z.coerce.number().min(0).max(100),
+  matchingSLOs: sloNumbers,
+  missingSLOs: sloNumbers,
+  reasoning: z.string().default(""),
+});
+
+// Response to the requirement fits request
+export const fitsResponseSchema = z.object({
+  bestFits: z.array(requirementFitSchema).default([]),
+  potentialFits: z.array(requirementFitSchema).default([]),
+  poorFits: z.array(requirementFitSchema).default([]),
+});
+
+// Response to the section labelling request; headings are numbered from 1
+export const sectionLabelsResponseSchema = z.object({
+  headings: z.array(z.object({
+    heading: z.coerce.number().int().positive(),
+    section: z.string(),
+  })).default([]),
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { SyllabusSection } from "@shared/schema";
+import { activityShare, parseSchedule } from "./scheduleParser";
+
+/**
+ * Build syllabus text with a schedule section, and the section that marks it
+ * @param schedule Text of the schedule section
+ * @returns The syllabus text and its sections
+ */
+function syllabusWithSchedule(schedule: string): { text: string; sections: SyllabusSection[] } {
+  const intro = "ARTS 1301 Introduction to Studio Art\nFall 2025\n";
+  const text = `${intro}Course Schedule\n${schedule}`;
+  return {
+    text,
+    sections: [
+      { type: "courseInfo", heading: null, start: 0, end: intro.length },
+      { type: "schedule", heading: "Course Schedule", start: intro.length, end: text.length },
+    ],
+  };
+}
+
+describe("parseSchedule", () => {
+  it("reads weekly rows with their topic, activity and due items", () => {
+    const { text, sections } = syllabusWithSchedule([
+      "Week 1: Introduction to visual elements",
+      "Week 2: Line and shape. Activity: Studio drawing session",
+      "Week 3: Color theory. Due: Reading response 1",
+      "Week 4: Midterm exam",
+      "Week 5: Thanksgiving - no class",
+      "Week 6: Portfolio critique",
+    ].join("\n"));
+
+    const schedule = parseSchedule(text, sections)!;
+
+    expect(schedule.rows.map(row => row.when)).toEqual(["Week 1", "Week 2", "Week 3", "Week 4", "Week 5", "Week 6"]);
+    expect(schedule.rows[0]).toEqual({
+      when: "Week 1",
+      topic: "Introduction to visual elements",
+      activity: null,
+      dueItems: [],
+      activityType: "lecture",
+    });
+    expect(schedule.rows[1]).toMatchObject({ topic: "Line and shape", activity: "Studio drawing session", activityType: "creative" });
+    expect(schedule.rows[2]).toMatchObject({ topic: "Color theory", dueItems: ["Reading response 1"] });
+    expect(schedule.rows.map(row => row.activityType)).toEqual(["lecture", "creative", "lecture", "assessment", "break", "creative"]);
+  });
+
+  it("measures shares of the sessions that meet, leaving out breaks", () => {
+    const { text, sections } = syllabusWithSchedule([
+      "Week 1: Introduction",
+      "Week 2: Studio workshop",
+      "Week 3: Spring break",
+      "Week 4: Studio critique",
+      "Week 5: Final exam",
+    ].join("\n"));
+
+    const schedule = parseSchedule(text, sections)!;
+
+    expect(schedule.shares[0]).toEqual({ activityType: "creative", sessions: 2, percentage: 50 });
+    expect(schedule.shares).toContainEqual({ activityType: "break", sessions: 1, percentage: 0 });
+    expect(activityShare(schedule, ["creative"])).toBe(0.5);
+    expect(activityShare(schedule, ["creative", "assessment"])).toBe(0.75);
+  });
+
+  it("reads rows labelled by date from text without line breaks", () => {
+    const { text, sections } = syllabusWithSchedule(
+      "Mon 9/1 Course overview Wed 9/3 Lab safety and lab 1 Mon 9/8 Discussion of readings Wed 9/10 Quiz 1"
+    );
+
+    const schedule = parseSchedule(text, sections)!;
+
+    expect(schedule.rows.map(row => row.activityType)).toEqual(["lecture", "lab", "discussion", "assessment"]);
+  });
+
+  it("ignores week numbers mentioned inside rows", () => {
+    const { text, sections } = syllabusWithSchedule([
+      "Week 1: Introduction",
+      "Week 2: Research methods; proposal is due in week 5",
+      "Week 3: Sources",
+      "Week 4: Drafting",
+    ].join("\n"));
+
+    expect(parseSchedule(text, sections)!.rows).toHaveLength(4);
+  });
+
+  it("counts art and music making as creative work but not writing composition or decision making", () => {
+    const { text, sections } = syllabusWithSchedule([
+      "Week 1: English composition: thesis statements",
+      "Week 2: Decision making under uncertainty",
+      "Week 3: Composition and rhetoric",
+      "Week 4: Printmaking techniques",
+      "Week 5: Musical composition",
+      "Week 6: Composing songs in class",
+    ].join("\n"));
+
+    expect(parseSchedule(text, sections)!.rows.map(row => row.activityType))
+      .toEqual(["lecture", "lecture", "lecture", "creative", "creative", "creative"]);
+  });
+
+  it("returns nothing without a schedule section or with too few rows", () => {
+    const { text, sections } = syllabusWithSchedule("Week 1: Introduction\nWeek 2: Color");
+
+    expect(parseSchedule(text, sections)).toBeUndefined();
+    expect(parseSchedule(text, sections.filter(section => section.type !== "schedule"))).toBeUndefined();
+    expect(parseSchedule(text, undefined)).toBeUndefined();
+  });
+});
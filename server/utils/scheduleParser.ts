@@ -0,0 +1,146 @@
+import { ActivityShare, CourseSchedule, ScheduleActivityType, ScheduleRow, SyllabusSection, scheduleActivityTypes } from "@shared/schema";
+import { sectionText } from "./sectionSegmenter";
+
+// Labels that open a row of the schedule, by kind; a schedule uses one kind throughout
+const ROW_MARKERS: RegExp[] = [
+  /\b(?:week|wk\.?)\s*\d{1,2}\b/gi,
+  /\b(?:session|class|day|meeting|lecture)\s*#?\s*\d{1,2}\b/gi,
+  /\b(?:(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s+)?\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/gi,
+  /\b(?:(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s+)?(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+\d{1,2}\b/gi,
+];
+
+// Words that identify each kind of session, checked in order so a graded studio critique still counts
+// as creative work; lectures are the default. Making and composition only count for art and music,
+// so "decision making" and a writing composition session are not creative work
+const ACTIVITY_PATTERNS: [ScheduleActivityType, RegExp][] = [
+  ["break", /\b(no\s+class(es)?|holiday|spring\s+break|fall\s+break|thanksgiving|reading\s+day|class\s+cancel+ed)\b/i],
+  ["serviceLearning", /\b(service[-\s]learning|community\s+(partner|engagement|service)|volunteer)/i],
+  ["fieldwork", /\b(field\s*(trip|work)|site\s+visit|museum\s+visit)/i],
+  ["lab", /\b(lab|laboratory|experiment)s?\b/i],
+  ["creative", /\b(studio|workshop|critique|portfolio|sketch|drawing|painting|sculpt|rehears|performance|exhibit|prototyp|design\s+(project|challenge|sprint)|(art|music|film|print|mask|pottery)[-\s]?making|making\s+(art|music|films?|prints?)|creative\s+(writing|project|work)|(musical|music|song|visual)\s+composition|compos(e|ing)\s+(music|songs?|pieces?)|photograph|film(ing|\s+shoot))/i],
+  ["assessment", /\b(exam|midterm|final|quiz|test)s?\b/i],
+  ["discussion", /\b(discussion|seminar|debate|presentations?|socratic)\b/i],
+];
+
+// Fewer rows than this means the schedule could not be parsed, so nothing is measured from it
+const MIN_SCHEDULE_ROWS = 4;
+
+// Longest topic kept for display
+const MAX_TOPIC_LENGTH = 200;
+
+/**
+ * Parse the weekly or class-by-class schedule of a syllabus
+ * @param text The extracted text of the syllabus
+ * @param sections Sections found by the segmenter
+ * @returns CourseSchedule | undefined The schedule, or undefined if the syllabus has no schedule that can be parsed
+ */
+export function parseSchedule(text: string, sections: SyllabusSection[] | undefined): CourseSchedule | undefined {
+  const scheduleText = sectionText(text, sections, "schedule");
+  if (!scheduleText) return undefined;
+
+  const rows = splitRows(scheduleText).map(parseRow).filter(row => row.topic || row.activity || row.dueItems.length > 0);
+  if (rows.length < MIN_SCHEDULE_ROWS) return undefined;
+
+  return { rows, shares: measureShares(rows) };
+}
+
+/**
+ * Share of the sessions that meet given to some kinds of activity
+ * @param schedule The parsed schedule
+ * @param activityTypes The kinds of activity to count
+ * @returns number Share between 0 and 1, or undefined when the schedule has no sessions that meet
+ */
+export function activityShare(schedule: CourseSchedule, activityTypes: ScheduleActivityType[]): number | undefined {
+  const meeting = schedule.rows.filter(row => row.activityType !== "break");
+  if (meeting.length === 0) return undefined;
+  return meeting.filter(row => activityTypes.includes(row.activityType)).length / meeting.length;
+}
+
+/**
+ * Split schedule text into the text of each row
+ * @param scheduleText Text of the schedule section
+ * @returns { when: string; content: string }[] The label and text of each row
+ */
+function splitRows(scheduleText: string): { when: string; content: string }[] {
+  // Use the kind of label the schedule is organized by
+  const matches = ROW_MARKERS
+    .map(marker => Array.from(scheduleText.matchAll(marker)))
+    .sort((a, b) => b.length - a.length)[0];
+
+  // Labels that open a line are rows; labels elsewhere are mentions such as "due in week 5",
+  // unless the text has no line breaks to go by, as with PDFs
+  const atLineStart = matches.filter(match => /(^|\n)[ \t]*$/.test(scheduleText.substring(0, match.index)));
+  const markers = atLineStart.length >= MIN_SCHEDULE_ROWS ? atLineStart : matches;
+
+  return markers.map((match, index) => {
+    const end = index + 1 < markers.length ? markers[index + 1].index! : scheduleText.length;
+    return {
+      when: match[0].replace(/\s+/g, " ").trim(),
+      content: scheduleText.substring(match.index! + match[0].length, end),
+    };
+  });
+}
+
+/**
+ * Pick out the topic, in-class activity and due items of a row
+ * @param row The label and text of the row
+ * @returns ScheduleRow The structured row
+ */
+function parseRow({ when, content }: { when: string; content: string }): ScheduleRow {
+  let rest = content.replace(/\s+/g, " ").trim();
+
+  // "Due: Essay 1" or "Essay 1 due"
+  const dueItems: string[] = [];
+  rest = rest.replace(/\b(?:due|submit)\s*:?\s+([^.;]+)[.;]?/gi, (_, item: string) => {
+    dueItems.push(item.trim());
+    return "";
+  });
+  rest = rest.replace(/((?:[\w'’#-]+\s+){0,4}[\w'’#-]+)\s+(?:is\s+|are\s+)?due\b[^.;]*[.;]?/gi, (_, item: string) => {
+    dueItems.push(item.trim());
+    return "";
+  });
+
+  // "Activity: Studio critique" or "In class: peer review"
+  let activity: string | null = null;
+  rest = rest.replace(/\b(?:activit(?:y|ies)|in[-\s]class)\s*:\s*([^.;]+)[.;]?/i, (_, text: string) => {
+    activity = text.trim();
+    return "";
+  });
+
+  // Removing the activity and due items can leave the sentence's period behind
+  const topic = rest.replace(/^[\s:\-–—).,]+|[\s\-–—.,;]+$/g, "").substring(0, MAX_TOPIC_LENGTH);
+  return {
+    when,
+    topic,
+    activity,
+    dueItems,
+    activityType: classifyActivity([topic, activity, ...dueItems].filter(Boolean).join(" ")),
+  };
+}
+
+/**
+ * Work out what kind of session a row describes
+ * @param description The row's topic, activity and due items
+ * @returns ScheduleActivityType The first kind whose words appear, or lecture
+ */
+function classifyActivity(description: string): ScheduleActivityType {
+  return ACTIVITY_PATTERNS.find(([, pattern]) => pattern.test(description))?.[0] ?? "lecture";
+}
+
+/**
+ * Count the sessions of each kind
+ * @param rows The schedule rows
+ * @returns ActivityShare[] Shares of the sessions that meet, largest first, with breaks counted but given no share
+ */
+function measureShares(rows: ScheduleRow[]): ActivityShare[] {
+  const meeting = rows.filter(row => row.activityType !== "break").length;
+
+  return scheduleActivityTypes
+    .map(activityType => {
+      const sessions = rows.filter(row => row.activityType === activityType).length;
+      const percentage = activityType === "break" || meeting === 0 ? 0 : Math.round(sessions / meeting * 100);
+      return { activityType, sessions, percentage };
+    })
+    .filter(share => share.sessions > 0)
+    .sort((a, b) => b.percentage - a.percentage);
+}
@@ -0,0 +1,184 @@
+import { SyllabusSection, SyllabusSectionType, syllabusSectionTypes } from "@shared/schema";
+import { config } from "../config";
+import { LayoutHeading } from "./documentParser";
+import { requestJSONCompletion } from "./openaiClient";
+import { sectionLabelsResponseSchema } from "./responseSchemas";
+import { isHeading } from "./textChunker";
+import { UsageRecorder } from "./usage";
+
+// Heading names of each standard section, after an optional "Course" or "Student"; checked in
+// order so "Grading Policy" is grading, not policies
+const SECTION_PATTERNS: [SyllabusSectionType, RegExp][] = [
+  ["learningOutcomes", /^(learning\s+)?(outcomes|objectives|goals)\b|^SLOs?\b/i],
+  ["description", /^(catalog\s+)?(description|overview)\b|^about\s+(this|the)\s+course\b/i],
+  ["materials", /^(required\s+)?(texts?|textbooks?|materials|readings?|resources)\b/i],
+  ["grading", /^(grading|grades?|grade\s+(scale|breakdown|distribution)|evaluation)\b/i],
+  ["assignments", /^(major\s+)?(assignments?|assessments?|requirements|coursework|projects?|exams?|examinations|quizzes|papers)\b/i],
+  ["schedule", /^((tentative|weekly)\s+)?(schedule|calendar|outline|topics)\b/i],
+  ["policies", /^((university|classroom)\s+)?(polic(y|ies)|attendance|academic\s+(integrity|honesty)|plagiarism|accommodations?|disabilit(y|ies)|late\s+work|make-?up|title\s+ix|conduct|honor\s+code)\b/i],
+  ["courseInfo", /^(information|instructor|office\s+hours|contact|prerequisites?|meeting\s+times?|meetings?)\b/i],
+];
+
+// Text after a heading shown to the model, so it can tell what the section is about
+const PREVIEW_LENGTH = 150;
+
+// A line that may open a section
+interface HeadingCandidate {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Split syllabus text into its standard sections
+ * @param text The extracted text of the syllabus
+ * @param layoutHeadings Headings found from the document's layout
+ * @param onUsage Receives the tokens used when the model labels the headings
+ * @returns Promise<SyllabusSection[]> Sections in document order; headings that name no standard section stay in the section before them
+ */
+export async function segmentSyllabus(
+  text: string,
+  layoutHeadings: LayoutHeading[] = [],
+  onUsage?: UsageRecorder
+): Promise<SyllabusSection[]> {
+  const candidates = findHeadingCandidates(text, layoutHeadings);
+  let labels = candidates.map(candidate => classifyHeading(candidate.text));
+
+  if (config.segmentation.useAI && candidates.length > 0 && (config.openai.apiKey || config.openai.baseURL)) {
+    try {
+      labels = await labelHeadingsWithAI(text, candidates, onUsage);
+    } catch (error) {
+      // The heuristic labels are good enough to go on with
+      console.warn("Error labelling syllabus sections with AI, using heading names instead:", error);
+    }
+  }
+
+  return buildSections(text, candidates, labels);
+}
+
+/**
+ * Join the text of every section of a type
+ * @param text The extracted text of the syllabus
+ * @param sections Sections found by the segmenter
+ * @param type The section type
+ * @returns string The sections' text, or an empty string when the syllabus has none
+ */
+export function sectionText(text: string, sections: SyllabusSection[] | undefined, type: SyllabusSectionType): string {
+  return (sections || [])
+    .filter(section => section.type === type)
+    .map(section => text.substring(section.start, section.end).trim())
+    .join("\n\n");
+}
+
+/**
+ * Find the lines that look like headings, by their wording or their layout
+ * @param text The extracted text of the syllabus
+ * @param layoutHeadings Headings found from the document's layout
+ * @returns HeadingCandidate[] Candidates in document order
+ */
+function findHeadingCandidates(text: string, layoutHeadings: LayoutHeading[]): HeadingCandidate[] {
+  const candidates = new Map<number, HeadingCandidate>();
+
+  let lineStart = 0;
+  while (lineStart < text.length) {
+    const newline = text.indexOf("\n", lineStart);
+    const lineEnd = newline >= 0 ? newline : text.length;
+    const line = text.substring(lineStart, lineEnd);
+
+    if (isHeading(line)) {
+      const start = lineStart + line.search(/\S/);
+      candidates.set(start, { start, end: lineEnd, text: line.trim() });
+    }
+    lineStart = lineEnd + 1;
+  }
+
+  // Layout headings cover PDFs, whose pages are extracted without line breaks
+  for (const heading of layoutHeadings) {
+    if (!candidates.has(heading.start)) {
+      candidates.set(heading.start, { ...heading, text: text.substring(heading.start, heading.end).trim() });
+    }
+  }
+
+  return Array.from(candidates.values())
+    .filter(candidate => candidate.text.length > 0)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Work out which standard section a heading opens from its wording
+ * @param heading The heading text
+ * @returns SyllabusSectionType | null The section type, or null for other headings
+ */
+function classifyHeading(heading: string): SyllabusSectionType | null {
+  const name = heading.replace(/^[\d.)\s]+/, "").replace(/^(course|class|student)\s+/i, "");
+  return SECTION_PATTERNS.find(([, pattern]) => pattern.test(name))?.[0] ?? null;
+}
+
+/**
+ * Ask the model which standard section each candidate heading opens
+ * @param text The extracted text of the syllabus
+ * @param candidates The candidate headings
+ * @param onUsage Receives the tokens used by each request
+ * @returns Promise<(SyllabusSectionType | null)[]> The label of each candidate, null for headings that open no standard section
+ */
+async function labelHeadingsWithAI(
+  text: string,
+  candidates: HeadingCandidate[],
+  onUsage?: UsageRecorder
+): Promise<(SyllabusSectionType | null)[]> {
+  const listing = candidates.map((candidate, index) => {
+    const preview = text.substring(candidate.end, candidate.end + PREVIEW_LENGTH).replace(/\s+/g, " ").trim();
+    return `${index + 1}. ${candidate.text}\n   Followed by: ${preview}`;
+  }).join("\n");
+
+  const response = await requestJSONCompletion("segmentation", [
+    {
+      role: "system",
+      content:
+        "You segment academic syllabi. You are given the lines of a syllabus that look like headings, each with the text " +
+        "that follows it. Decide which standard section each heading opens: " +
+        `${syllabusSectionTypes.join(", ")}. Use "none" for sub-headings and lines that are not headings, ` +
+        "such as the weeks of a schedule or the items of a list. " +
+        'Respond with JSON: {"headings": [{"heading": <number>, "section": "<section or none>"}]}'
+    },
+    {
+      role: "user",
+      content: `Label these headings:\n\n${listing}`
+    },
+  ], sectionLabelsResponseSchema, onUsage);
+
+  const labels = new Map(response.headings.map(item => [item.heading, item.section]));
+  return candidates.map((candidate, index) => {
+    const label = labels.get(index + 1);
+    return syllabusSectionTypes.find(type => type === label) ?? null;
+  });
+}
+
+/**
+ * Turn labelled headings into sections covering the text
+ * @param text The extracted text of the syllabus
+ * @param candidates The candidate headings
+ * @param labels The section type each candidate opens, or null
+ * @returns SyllabusSection[] Sections in document order
+ */
+function buildSections(text: string, candidates: HeadingCandidate[], labels: (SyllabusSectionType | null)[]): SyllabusSection[] {
+  const sections: SyllabusSection[] = [];
+
+  const firstStart = candidates.find((candidate, index) => labels[index] !== null)?.start ?? text.length;
+
+  // Syllabi open with the course title, instructor and meeting details
+  if (text.substring(0, firstStart).trim()) {
+    sections.push({ type: "courseInfo", heading: null, start: 0, end: firstStart });
+  }
+
+  candidates.forEach((candidate, index) => {
+    const type = labels[index];
+    if (type === null) return;
+
+    const previous = sections[sections.length - 1];
+    if (previous) previous.end = candidate.start;
+    sections.push({ type, heading: candidate.text, start: candidate.start, end: text.length });
+  });
+
+  return sections;
+}
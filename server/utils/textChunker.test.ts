@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { chunkSyllabus, isHeading } from "./textChunker";
+
+/**
+ * Build a section of the given heading and body length
+ * @param heading The heading line
+ * @param bodyLength Characters of body text
+ * @returns string The section, ending in a newline
+ */
+function section(heading: string, bodyLength: number): string {
+  return `${heading}\n${"word ".repeat(Math.ceil(bodyLength / 5)).substring(0, bodyLength)}\n`;
+}
+
+describe("chunkSyllabus", () => {
+  it("keeps text within the limit as a single chunk", () => {
+    const text = section("Course Description", 100);
+    expect(chunkSyllabus(text, 500)).toEqual([{ text, start: 0, end: text.length }]);
+  });
+
+  it("packs whole sections into contiguous chunks that cover the text", () => {
+    const text = [
+      section("Course Description", 150),
+      section("Learning Outcomes", 150),
+      section("Grading", 150),
+      section("Schedule", 150),
+    ].join("");
+
+    const chunks = chunkSyllabus(text, 400);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[1].text.startsWith("Grading\n")).toBe(true);
+    chunks.forEach((chunk, index) => {
+      expect(chunk.text.length).toBeLessThanOrEqual(400);
+      expect(chunk.text).toBe(text.substring(chunk.start, chunk.end));
+      if (index > 0) expect(chunk.start).toBe(chunks[index - 1].end);
+    });
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+  });
+
+  it("splits a section longer than the limit at a word boundary", () => {
+    const text = section("Policies", 1000);
+
+    const chunks = chunkSyllabus(text, 300);
+
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach(chunk => {
+      expect(chunk.text.length).toBeLessThanOrEqual(300);
+      expect(chunk.text).toBe(text.substring(chunk.start, chunk.end));
+    });
+    chunks.slice(0, -1).forEach(chunk => expect(chunk.text).toMatch(/[\s]$/));
+    expect(chunks.map(chunk => chunk.text).join("")).toBe(text);
+  });
+});
+
+describe("isHeading", () => {
+  it("recognizes common section names, numbered headings, capitals and colons", () => {
+    expect(isHeading("Grading")).toBe(true);
+    expect(isHeading("3. Required Texts")).toBe(true);
+    expect(isHeading("ACADEMIC HONESTY")).toBe(true);
+    expect(isHeading("Office Hours:")).toBe(true);
+  });
+
+  it("rejects sentences and very short lines", () => {
+    expect(isHeading("Students will write three essays.")).toBe(false);
+    expect(isHeading("A:")).toBe(false);
+  });
+});
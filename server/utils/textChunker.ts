@@ -0,0 +1,103 @@
+// A contiguous part of the syllabus; offsets index into the full text
+export interface TextChunk {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Headings that commonly open a syllabus section
+const KNOWN_HEADINGS = /^(course\s+)?(description|overview|objectives|goals|(student\s+)?learning\s+(outcomes|objectives|goals)|outcomes|prerequisites?|required\s+(texts?|materials)|materials|textbooks?|assignments?|assessments?|grading|evaluation|course\s+requirements|requirements|schedule|calendar|weekly\s+schedule|course\s+outline|topics|policies|attendance|academic\s+integrity|accommodations|resources)\b/i;
+
+/**
+ * Split syllabus text into chunks at section boundaries so each chunk fits in one prompt
+ * @param text The full syllabus text
+ * @param maxChars Maximum length of a chunk
+ * @returns TextChunk[] Contiguous chunks covering the whole text, in order
+ */
+export function chunkSyllabus(text: string, maxChars: number): TextChunk[] {
+  if (text.length <= maxChars) {
+    return [{ text, start: 0, end: text.length }];
+  }
+
+  // Pack whole sections into chunks, splitting only sections that are too long by themselves
+  const chunks: TextChunk[] = [];
+  let chunkStart = 0;
+  let chunkEnd = 0;
+
+  for (const [sectionStart, sectionEnd] of splitLongRanges(text, findSections(text), maxChars)) {
+    if (sectionEnd - chunkStart > maxChars && chunkEnd > chunkStart) {
+      chunks.push({ text: text.substring(chunkStart, chunkEnd), start: chunkStart, end: chunkEnd });
+      chunkStart = sectionStart;
+    }
+    chunkEnd = sectionEnd;
+  }
+  chunks.push({ text: text.substring(chunkStart, chunkEnd), start: chunkStart, end: chunkEnd });
+
+  return chunks;
+}
+
+/**
+ * Find section ranges by looking for heading lines
+ * @param text The full syllabus text
+ * @returns Array of [start, end) ranges covering the whole text
+ */
+function findSections(text: string): [number, number][] {
+  const boundaries = [0];
+  let lineStart = 0;
+
+  while (lineStart < text.length) {
+    const newline = text.indexOf("\n", lineStart);
+    const lineEnd = newline >= 0 ? newline : text.length;
+
+    if (lineStart > 0 && isHeading(text.substring(lineStart, lineEnd))) {
+      boundaries.push(lineStart);
+    }
+    lineStart = lineEnd + 1;
+  }
+  boundaries.push(text.length);
+
+  return boundaries.slice(0, -1).map((start, index) => [start, boundaries[index + 1]] as [number, number]);
+}
+
+/**
+ * Decide whether a line looks like a section heading
+ * @param line A single line of the syllabus
+ * @returns boolean True for short lines that are all caps, end in a colon or name a common section
+ */
+export function isHeading(line: string): boolean {
+  const trimmed = line.trim();
+  if (trimmed.length < 3 || trimmed.length > 80) return false;
+  if (KNOWN_HEADINGS.test(trimmed.replace(/^[\d.\s]+/, ""))) return true;
+
+  const letters = trimmed.replace(/[^A-Za-z]/g, "");
+  return letters.length >= 3 && (letters === letters.toUpperCase() || /^[A-Z][^.!?]*:$/.test(trimmed));
+}
+
+/**
+ * Split ranges longer than the limit at paragraph, line or word boundaries
+ * @param text The full syllabus text
+ * @param ranges Section ranges
+ * @param maxChars Maximum length of a range
+ * @returns Array of [start, end) ranges no longer than maxChars
+ */
+function splitLongRanges(text: string, ranges: [number, number][], maxChars: number): [number, number][] {
+  const result: [number, number][] = [];
+
+  for (let [start, end] of ranges) {
+    while (end - start > maxChars) {
+      const limit = start + maxChars;
+      const window = text.substring(start, limit);
+
+      // Prefer the last paragraph break, then line break, then space in the window
+      const breakAt = [window.lastIndexOf("\n\n"), window.lastIndexOf("\n"), window.lastIndexOf(" ")]
+        .find(index => index > maxChars / 2);
+      const splitAt = breakAt !== undefined ? start + breakAt + 1 : limit;
+
+      result.push([start, splitAt]);
+      start = splitAt;
+    }
+    result.push([start, end]);
+  }
+
+  return result;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from "vitest";
+import { StageUsage } from "@shared/schema";
+import { estimateCost, totalUsage, usageRecorder } from "./usage";
+
+// A fixed price table, so the tests do not depend on OPENAI_PRICES
+vi.mock("../config", () => ({
+  config: {
+    openai: {
+      prices: {
+        "gpt-4o": { input: 2.5, output: 10 },
+        "gpt-4o-mini": { input: 0.15, output: 0.6 },
+      },
+    },
+  },
+}));
+
+describe("estimateCost", () => {
+  it("prices prompt and completion tokens per million", () => {
+    expect(estimateCost("gpt-4o", 1_000_000, 100_000)).toBeCloseTo(3.5);
+  });
+
+  it("uses the longest listed name a dated snapshot starts with", () => {
+    expect(estimateCost("gpt-4o-mini-2024-07-18", 1_000_000, 0)).toBeCloseTo(0.15);
+    expect(estimateCost("gpt-4o-2024-08-06", 1_000_000, 0)).toBeCloseTo(2.5);
+  });
+
+  it("records models without a price at no cost", () => {
+    expect(estimateCost("llama-3-70b", 1_000_000, 1_000_000)).toBe(0);
+    expect(estimateCost("gpt-4omni", 1_000_000, 0)).toBe(0);
+  });
+});
+
+describe("usageRecorder", () => {
+  it("adds each request to the entry for its stage, batch and model", () => {
+    const usage: StageUsage[] = [];
+    const recordBatch = usageRecorder(usage, "requirements", 1);
+
+    recordBatch("gpt-4o", { prompt_tokens: 1000, completion_tokens: 200, total_tokens: 1200 });
+    recordBatch("gpt-4o", { prompt_tokens: 500, completion_tokens: 100, total_tokens: 600 });
+    recordBatch("gpt-4o-mini", undefined);
+    usageRecorder(usage, "fits")("gpt-4o", { prompt_tokens: 100, completion_tokens: 0, total_tokens: 100 });
+
+    expect(usage).toHaveLength(3);
+    expect(usage[0]).toMatchObject({ stage: "requirements", batch: 1, model: "gpt-4o", requests: 2, promptTokens: 1500, completionTokens: 300 });
+    expect(usage[1]).toMatchObject({ stage: "requirements", batch: 1, model: "gpt-4o-mini", requests: 1, promptTokens: 0 });
+    expect(usage[2]).not.toHaveProperty("batch");
+
+    const totals = totalUsage(usage);
+    expect(totals.promptTokens).toBe(1600);
+    expect(totals.completionTokens).toBe(300);
+    expect(totals.estimatedCost).toBeCloseTo((1600 * 2.5 + 300 * 10) / 1_000_000);
+  });
+});
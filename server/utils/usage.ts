@@ -0,0 +1,61 @@
+import type { CompletionUsage } from "openai/resources/completions";
+import { StageUsage } from "@shared/schema";
+import { config } from "../config";
+
+// Receives the usage reported for each completion request
+export type UsageRecorder = (model: string, usage: CompletionUsage | undefined) => void;
+
+/**
+ * Estimate the cost of a request from the configured price table
+ * @param model The requested model; dated snapshots such as "gpt-4o-2024-08-06" use the price of "gpt-4o"
+ * @param promptTokens Tokens sent
+ * @param completionTokens Tokens generated
+ * @returns number Estimated cost in US dollars, or 0 when the model has no price
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  // Use the longest model name in the table that the model starts with
+  const priced = Object.keys(config.openai.prices)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!priced) return 0;
+
+  const price = config.openai.prices[priced];
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Create a recorder that adds each request's usage to a stage's entry
+ * @param usage The analysis's usage entries, updated in place
+ * @param stage The analysis stage
+ * @param batch Requirement batch number, for the requirements stage
+ * @returns UsageRecorder Callback for the OpenAI client
+ */
+export function usageRecorder(usage: StageUsage[], stage: string, batch?: number): UsageRecorder {
+  return (model, completionUsage) => {
+    let entry = usage.find(item => item.stage === stage && item.batch === batch && item.model === model);
+    if (!entry) {
+      entry = { stage, ...(batch !== undefined ? { batch } : {}), model, requests: 0, promptTokens: 0, completionTokens: 0, estimatedCost: 0 };
+      usage.push(entry);
+    }
+
+    const promptTokens = completionUsage?.prompt_tokens || 0;
+    const completionTokens = completionUsage?.completion_tokens || 0;
+    entry.requests++;
+    entry.promptTokens += promptTokens;
+    entry.completionTokens += completionTokens;
+    entry.estimatedCost += estimateCost(model, promptTokens, completionTokens);
+  };
+}
+
+/**
+ * Add up the usage of every stage
+ * @param usage Usage entries of an analysis
+ * @returns Total tokens and estimated cost
+ */
+export function totalUsage(usage: StageUsage[] = []): { promptTokens: number; completionTokens: number; estimatedCost: number } {
+  return {
+    promptTokens: usage.reduce((sum, entry) => sum + entry.promptTokens, 0),
+    completionTokens: usage.reduce((sum, entry) => sum + entry.completionTokens, 0),
+    estimatedCost: usage.reduce((sum, entry) => sum + entry.estimatedCost, 0),
+  };
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, unique, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,6 +16,49 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Define the requirement catalog versions table (e.g. one per academic year)
+export const catalogVersions = pgTable("catalog_versions", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),  // e.g. "2025-26"
+  description: text("description"),
+  status: text("status").notNull().default("draft"),  // "draft" while editable, "published" once immutable
+  isActive: boolean("is_active").notNull().default(false),  // The version used when none is requested
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  publishedAt: timestamp("published_at"),
+});
+
+// Define the insert schema for catalog versions
+export const insertCatalogVersionSchema = createInsertSchema(catalogVersions, {
+  name: (schema) => schema.min(1),
+}).pick({
+  name: true,
+  description: true,
+});
+
+export type InsertCatalogVersion = z.infer<typeof insertCatalogVersionSchema>;
+export type CatalogVersion = typeof catalogVersions.$inferSelect;
+
+// Standard parts of a syllabus the section segmenter recognizes
+export const syllabusSectionTypes = [
+  "courseInfo", "description", "learningOutcomes", "materials", "assignments", "grading", "schedule", "policies",
+] as const;
+
+export type SyllabusSectionType = typeof syllabusSectionTypes[number];
+
+// Kinds of class session the schedule parser recognizes
+export const scheduleActivityTypes = [
+  "lecture", "discussion", "creative", "lab", "serviceLearning", "fieldwork", "assessment", "break",
+] as const;
+
+export type ScheduleActivityType = typeof scheduleActivityTypes[number];
+
+// Kinds of graded work the assessment parser recognizes
+export const assessmentTypes = [
+  "exam", "quiz", "writing", "presentation", "lab", "project", "homework", "participation", "other",
+] as const;
+
+export type AssessmentType = typeof assessmentTypes[number];
+
 // Define the analysis result table
 export const analyses = pgTable("analyses", {
   id: serial("id").primaryKey(),
@@ -32,10 +75,83 @@ export const analyses = pgTable("analyses", {
   bestFit: jsonb("best_fit"),  // Store the best matching requirement
   potentialFits: jsonb("potential_fits"),  // Store requirements with moderate alignment
   poorFits: jsonb("poor_fits"),  // Store requirements with minimal alignment
+  catalogVersionId: integer("catalog_version_id").references(() => catalogVersions.id),  // Catalog the verdict was judged against
+  thresholds: jsonb("thresholds").$type<Record<string, RequirementThresholds>>(),  // Thresholds in effect, keyed by requirement name
+  coverage: jsonb("coverage").$type<AnalysisCoverage>(),  // How much of the content the analysis considered
+  unanalyzedRequirements: jsonb("unanalyzed_requirements").$type<UnanalyzedRequirement[]>(),  // Requirements that could not be analyzed
+  sections: jsonb("sections").$type<SyllabusSection[]>(),  // Standard sections found in the content
+  schedule: jsonb("schedule").$type<CourseSchedule>(),  // Sessions parsed from the schedule section
+  assessments: jsonb("assessments").$type<Assessment[]>(),  // Graded work parsed from the assignments and grading sections
+  learningOutcomes: jsonb("learning_outcomes").$type<string[]>(),  // The course's own learning outcomes, in syllabus order
+  learningOutcomesEditedAt: timestamp("learning_outcomes_edited_at"),  // Set once a user has edited the learning outcomes
+  // Provenance of the verdict
+  analyzer: text("analyzer"),  // Registered analyzer that produced the verdict, e.g. "openai"
+  analysisMethod: text("analysis_method"),  // "ai", "keyword" or "fixture"
+  model: text("model"),  // Model that judged the requirements
+  temperature: doublePrecision("temperature"),  // Sampling temperature; null when the server default was used
+  promptVersion: text("prompt_version"),  // Version of the prompt templates
+  fallbackError: text("fallback_error"),  // Why the primary analyzer failed, when the fallback produced the verdict
+  stageTimings: jsonb("stage_timings").$type<StageTiming[]>(),  // When each analysis stage started and finished
+  cached: boolean("cached").notNull().default(false),  // The verdict was reused from the analysis cache
+  // Spend on the AI service
+  usage: jsonb("usage").$type<StageUsage[]>(),  // Tokens and estimated cost per stage
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  estimatedCost: doublePrecision("estimated_cost").notNull().default(0),  // In US dollars, from the configured price table
+  submittedBy: text("submitted_by"),  // Who uploaded the syllabus, as entered in the uploader
+  batchId: text("batch_id"),  // Shared by the analyses of one multi-file upload
 });
 
 // Define the insert schema for analyses
-export const insertAnalysisSchema = createInsertSchema(analyses).omit({
+export const insertAnalysisSchema = createInsertSchema(analyses, {
+  unanalyzedRequirements: z.array(z.object({ name: z.string(), reason: z.string() })).nullish(),
+  stageTimings: z.array(z.object({
+    stage: z.string(),
+    model: z.string().optional(),
+    startedAt: z.string(),
+    completedAt: z.string(),
+  })).nullish(),
+  sections: z.array(z.object({
+    type: z.enum(syllabusSectionTypes),
+    heading: z.string().nullable(),
+    start: z.number(),
+    end: z.number(),
+  })).nullish(),
+  schedule: z.object({
+    rows: z.array(z.object({
+      when: z.string(),
+      topic: z.string(),
+      activity: z.string().nullable(),
+      dueItems: z.array(z.string()),
+      activityType: z.enum(scheduleActivityTypes),
+    })),
+    shares: z.array(z.object({
+      activityType: z.enum(scheduleActivityTypes),
+      sessions: z.number(),
+      percentage: z.number(),
+    })),
+  }).nullish(),
+  assessments: z.array(z.object({
+    name: z.string(),
+    type: z.enum(assessmentTypes),
+    count: z.number(),
+    weight: z.number().nullable(),
+    pages: z.number().nullable(),
+    length: z.string().nullable(),
+    revisionSteps: z.array(z.string()),
+    collaborative: z.boolean(),
+  })).nullish(),
+  learningOutcomes: z.array(z.string()).nullish(),
+  usage: z.array(z.object({
+    stage: z.string(),
+    batch: z.number().optional(),
+    model: z.string(),
+    requests: z.number(),
+    promptTokens: z.number(),
+    completionTokens: z.number(),
+    estimatedCost: z.number(),
+  })).nullish(),
+}).omit({
   id: true,
   uploadDate: true,
 });
@@ -43,6 +159,202 @@ export const insertAnalysisSchema = createInsertSchema(analyses).omit({
 export type InsertAnalysis = z.infer<typeof insertAnalysisSchema>;
 export type Analysis = typeof analyses.$inferSelect;
 
+// Body of a request that replaces an analysis's learning outcomes; order is kept
+export const updateLearningOutcomesSchema = z.object({
+  learningOutcomes: z.array(z.string().trim().min(1)),
+});
+
+// Define the analysis cache table, so identical syllabi are not analyzed twice
+export const analysisCache = pgTable("analysis_cache", {
+  id: serial("id").primaryKey(),
+  cacheKey: text("cache_key").notNull().unique(),  // Hash of everything the verdict depends on
+  contentHash: text("content_hash").notNull(),  // SHA-256 of the extracted text
+  catalogVersionId: integer("catalog_version_id").notNull().references(() => catalogVersions.id),
+  model: text("model").notNull(),
+  promptVersion: text("prompt_version").notNull(),
+  result: jsonb("result").$type<Partial<AnalysisResult>>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type AnalysisCacheEntry = typeof analysisCache.$inferSelect;
+export type InsertAnalysisCacheEntry = typeof analysisCache.$inferInsert;
+
+// Queue of analyses waiting for a background worker
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: serial("id").primaryKey(),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),  // "queued", "running", "completed" or "failed"
+  stage: text("stage"),  // Step of a running job, e.g. "extracting" or "analyzing"
+  payload: jsonb("payload").$type<AnalysisJobPayload>().notNull(),  // The uploaded file and how to analyze it
+  result: jsonb("result").$type<AnalysisResult>(),  // Summary of the analysis once completed, without its content and sections
+  analysisId: integer("analysis_id").references(() => analyses.id, { onDelete: "set null" }),
+  batchId: text("batch_id").references(() => batches.id),  // Batch the file was uploaded in; the job records its outcome
+  error: text("error"),  // Why the last attempt failed
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAfter: timestamp("run_after").defaultNow().notNull(),  // A failed job is retried after this time
+  lockedAt: timestamp("locked_at"),  // When a worker claimed the job
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+export type InsertAnalysisJob = typeof analysisJobs.$inferInsert;
+
+// Multi-file uploads, so their syllabi can be found and followed up together
+export const batches = pgTable("batches", {
+  id: text("id").primaryKey(),  // UUID, also recorded on the batch's analyses
+  name: text("name").notNull(),
+  submittedBy: text("submitted_by"),
+  status: text("status").$type<BatchStatus>().notNull().default("processing"),  // "processing", "completed", "partial" or "failed"
+  catalogVersionId: integer("catalog_version_id").references(() => catalogVersions.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),  // When the last file finished
+});
+
+export type Batch = typeof batches.$inferSelect;
+export type InsertBatch = typeof batches.$inferInsert;
+
+// Tailwind palette names a requirement can be displayed with
+export const requirementColorNames = [
+  "blue", "emerald", "teal", "purple", "yellow", "rose", "amber", "indigo", "cyan",
+  "lime", "pink", "violet", "orange", "green", "sky", "red", "fuchsia", "slate", "neutral",
+] as const;
+
+export type RequirementColorName = typeof requirementColorNames[number];
+
+// Fields shared by every special-criteria rule
+const requirementRuleBase = {
+  description: z.string().min(1),       // The criterion as explained to the AI analyzer
+  rejectionMessage: z.string().min(1),  // Added to the missing requirements when the rule fails
+};
+
+// Declarative special criteria a syllabus must satisfy on top of the SLOs and required elements
+export const requirementRuleSchema = z.discriminatedUnion("type", [
+  // The course code must start with one of the prefixes, e.g. "PHIL"
+  z.object({
+    ...requirementRuleBase,
+    type: z.literal("coursePrefix"),
+    prefixes: z.array(z.string().min(1)).min(1),
+  }),
+  // At least this proportion of the course must cover the topic; the indicators are the keyword proxy
+  z.object({
+    ...requirementRuleBase,
+    type: z.literal("minContentProportion"),
+    proportion: z.number().gt(0).max(1),
+    indicators: z.array(z.string().min(1)).min(1),
+    minIndicatorMatches: z.number().int().min(1),
+    // Sessions of these kinds count toward the proportion; a parsed schedule replaces the keyword proxy
+    activityTypes: z.array(z.enum(scheduleActivityTypes)).min(1).optional(),
+  }),
+  // The course must be taught in one of the languages
+  z.object({
+    ...requirementRuleBase,
+    type: z.literal("languageOfInstruction"),
+    languages: z.array(z.string().min(1)).min(1),
+  }),
+  // The syllabus must mention any or all of the terms
+  z.object({
+    ...requirementRuleBase,
+    type: z.literal("requiredTerms"),
+    terms: z.array(z.string().min(1)).min(1),
+    match: z.enum(["any", "all"]),
+  }),
+  // One of the courses must (or must not) be listed as a prerequisite
+  z.object({
+    ...requirementRuleBase,
+    type: z.literal("prerequisite"),
+    courses: z.array(z.string().min(1)).min(1),
+    required: z.boolean(),
+  }),
+  // The course must grade at least this many assessments of the given kind
+  z.object({
+    ...requirementRuleBase,
+    type: z.literal("minAssessmentCount"),
+    assessmentTerms: z.array(z.string().min(1)).min(1),
+    minCount: z.number().int().min(1),
+    // With these, parsed assessments of these kinds replace the term count; only those of at least
+    // minPages pages, and with drafts and revision when requiresRevision is set, are counted
+    assessmentTypes: z.array(z.enum(assessmentTypes)).min(1).optional(),
+    minPages: z.number().positive().optional(),
+    requiresRevision: z.boolean().optional(),
+  }),
+]);
+
+export type RequirementRule = z.infer<typeof requirementRuleSchema>;
+
+// Bulletin constraint on which courses may carry a requirement, e.g. "MATH 1312 or higher"
+export const bulletinConstraintSchema = z.object({
+  description: z.string().min(1),                              // The constraint as printed in the bulletin
+  subjectPrefixes: z.array(z.string().min(1)).min(1).optional(), // Course code must use one of these subjects
+  minCourseNumber: z.number().int().min(0).optional(),         // Course number must be at least this
+  courses: z.array(z.string().min(1)).min(1).optional(),       // Courses that always satisfy the constraint
+});
+
+export type BulletinConstraint = z.infer<typeof bulletinConstraintSchema>;
+
+// Define the Gen Ed requirements catalog table
+export const requirements = pgTable("requirements", {
+  id: serial("id").primaryKey(),
+  catalogVersionId: integer("catalog_version_id")
+    .notNull()
+    .references(() => catalogVersions.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  slos: jsonb("slos").$type<string[]>().notNull(),
+  keywords: jsonb("keywords").$type<string[]>().notNull(),
+  requiredElements: jsonb("required_elements").$type<string[]>().notNull(),
+  category: text("category").notNull(),  // "foundational", "core" or "mission_marker"
+  color: text("color").$type<RequirementColorName>().notNull().default("neutral"),  // Palette used wherever the requirement is shown
+  rules: jsonb("rules").$type<RequirementRule[]>().notNull().default([]),  // Special criteria checked by both analyzers
+  bulletinConstraints: jsonb("bulletin_constraints").$type<BulletinConstraint[]>().notNull().default([]),
+  elementThreshold: doublePrecision("element_threshold").notNull().default(0.6),  // Share of required elements that must be present
+  sloThreshold: doublePrecision("slo_threshold").notNull().default(0.6),  // Share of SLOs that must be addressed
+}, (table) => [
+  unique("requirements_catalog_version_name_unique").on(table.catalogVersionId, table.name),
+]);
+
+// Define the insert schema for requirements
+export const insertRequirementSchema = createInsertSchema(requirements, {
+  name: (schema) => schema.min(1),
+  slos: z.array(z.string().min(1)).min(1),
+  keywords: z.array(z.string().min(1)),
+  requiredElements: z.array(z.string().min(1)),
+  color: z.enum(requirementColorNames).optional(),
+  rules: z.array(requirementRuleSchema).optional(),
+  bulletinConstraints: z.array(bulletinConstraintSchema).optional(),
+  elementThreshold: z.number().min(0).max(1).optional(),
+  sloThreshold: z.number().min(0).max(1).optional(),
+}).omit({
+  id: true,
+});
+
+export type InsertRequirement = z.infer<typeof insertRequirementSchema>;
+export type Requirement = typeof requirements.$inferSelect;
+
+// A requirement complete enough to be analyzed against, checked before a catalog version is published
+export const publishableRequirementSchema = insertRequirementSchema.extend({
+  description: z.string().trim().min(1),
+  keywords: z.array(z.string().min(1)).min(1),
+  requiredElements: z.array(z.string().min(1)).min(1),
+});
+
+// A requirement definition that is not yet attached to a catalog version
+export type RequirementDefinition = Omit<InsertRequirement, "catalogVersionId">;
+
+// Define type definitions for comparing two catalog versions
+export interface RequirementFieldChange {
+  field: keyof RequirementDefinition;
+  before: unknown;
+  after: unknown;
+}
+
+export interface CatalogDiff {
+  added: string[];      // Requirement names only present in the compared version
+  removed: string[];    // Requirement names only present in the base version
+  changed: { name: string; changes: RequirementFieldChange[] }[];
+  unchanged: string[];
+}
+
 // Define required type definitions for the Gen Ed requirements
 export interface RequirementDetail {
   name: string;
@@ -62,16 +374,53 @@ export interface MissingRequirement {
   slos: number[];
 }
 
+// Approval thresholds of a requirement, as shares between 0 and 1
+export interface RequirementThresholds {
+  elementThreshold: number;
+  sloThreshold: number;
+}
+
+// Result of checking the course code against one bulletin constraint
+export interface BulletinCheck {
+  description: string;
+  status: "pass" | "fail" | "unknown";  // "unknown" when no course code could be identified
+  courseCode: string;
+}
+
+// An excerpt of the syllabus supporting a verdict; offsets index into the analysis content
+export interface EvidenceExcerpt {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Evidence found for one requirement SLO (1-indexed) or required element
+export interface SLOEvidence {
+  slo: number;
+  excerpts: EvidenceExcerpt[];
+}
+
+export interface ElementEvidence {
+  element: string;
+  excerpts: EvidenceExcerpt[];
+}
+
 export interface ApprovedRequirement {
   name: string;
   matchingRequirements: string[];
   matchingSLOs: number[];
+  bulletinChecks?: BulletinCheck[];
+  sloEvidence?: SLOEvidence[];          // Evidence for every matched or missing SLO
+  elementEvidence?: ElementEvidence[];  // Evidence for every matched or missing required element
 }
 
 export interface RejectedRequirement {
   name: string;
   missingRequirements: string[];
   missingSLOs: number[];
+  bulletinChecks?: BulletinCheck[];
+  sloEvidence?: SLOEvidence[];
+  elementEvidence?: ElementEvidence[];
 }
 
 export interface RequirementFit {
@@ -82,7 +431,173 @@ export interface RequirementFit {
   reasoning: string;   // Explanation of why this is considered a good/potential/poor fit
 }
 
+// A requirement the analyzer could not reach a verdict on
+export interface UnanalyzedRequirement {
+  name: string;
+  reason: string;  // Error that stopped the analysis
+}
+
+// Start and end of one analysis stage, as ISO timestamps
+export interface StageTiming {
+  stage: string;    // e.g. "courseInfo", "requirements", "fits" or "keywords"
+  model?: string;   // Model used for the stage, for AI stages
+  startedAt: string;
+  completedAt: string;
+}
+
+// Tokens used by one analysis stage, or one requirement batch
+export interface StageUsage {
+  stage: string;          // e.g. "courseInfo", "learningOutcomes", "requirements" or "fits"
+  batch?: number;         // Requirement batch number, for the requirements stage
+  model: string;
+  requests: number;       // Completion requests sent, including retries and repairs
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;  // In US dollars
+}
+
+// Spend of a group of analyses in the usage report
+export interface UsageSummary {
+  key: string | null;     // Day, submitter or batch; null when not recorded
+  analyses: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
+}
+
+// Spend on the AI service over a period
+export interface UsageReport {
+  total: UsageSummary;
+  byDay: UsageSummary[];
+  byUser: UsageSummary[];
+  byBatch: UsageSummary[];
+}
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+// An uploaded syllabus waiting to be analyzed
+export interface AnalysisJobPayload {
+  filePath: string;          // Temporary upload, removed once the job completes or finally fails
+  fileName: string;          // Original file name
+  fileSize: number;
+  catalogVersionId: number;
+  courseName?: string;       // User-supplied course information; the extracted values are used when absent
+  courseCode?: string;
+  submittedBy?: string;
+  batchId?: string;          // Recorded on the analysis; the job's batch column is used for lookups
+  force?: boolean;           // Re-run the analysis even if an identical syllabus is cached
+}
+
+// Progress of an analysis job, as reported to the client
+export interface AnalysisJobStatus {
+  id: number;
+  status: JobStatus;
+  stage: string | null;
+  fileName: string;
+  attempts: number;
+  maxAttempts: number;
+  error: string | null;
+  analysisId: number | null;  // Set once the job has completed; the result is fetched separately
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export type BatchStatus = "processing" | "completed" | "partial" | "failed";
+
+// Outcome of one file of a batch
+export interface BatchFile {
+  jobId: number;
+  fileName: string;
+  status: JobStatus;
+  stage: string | null;
+  error: string | null;          // Why the last attempt failed
+  analysisId: number | null;     // Set once the file has been analyzed
+  courseName: string | null;
+  courseCode: string | null;
+  bestFit: string | null;        // Name of the best matching requirement
+  approvedRequirements: string[];
+  canRerun: boolean;             // Failed, and the upload is still available
+}
+
+// A batch in the batch list
+export interface BatchSummary extends Batch {
+  fileCount: number;
+  completedCount: number;
+  failedCount: number;
+}
+
+// A batch with the outcome of each file
+export interface BatchDetail extends Batch {
+  files: BatchFile[];
+}
+
+// A step of an analysis as it happens, pushed to the browser while a job runs
+export interface AnalysisProgressEvent {
+  jobId: number;
+  fileName: string;
+  step: string;        // e.g. "extraction", "courseInfo", "requirements", "learningOutcomes", "fits", "saving" or "done"
+  status: "started" | "progress" | "completed" | "failed";
+  message: string;
+  current?: number;    // Requirement batches finished so far, for the requirements step
+  total?: number;
+  timestamp: string;
+}
+
+// Progress reported by an analyzer, before the job details are added
+export type AnalysisProgressUpdate = Omit<AnalysisProgressEvent, "jobId" | "fileName" | "timestamp">;
+
+// A standard section of a syllabus; offsets index into the extracted text
+export interface SyllabusSection {
+  type: SyllabusSectionType;
+  heading: string | null;  // Null for the untitled opening of the syllabus
+  start: number;
+  end: number;
+}
+
+// A session, or week, of the course schedule
+export interface ScheduleRow {
+  when: string;               // Week, session or date as written, e.g. "Week 3" or "Jan 15"
+  topic: string;
+  activity: string | null;    // What happens in class, when the syllabus says
+  dueItems: string[];         // Work due at the session
+  activityType: ScheduleActivityType;
+}
+
+// Share of the sessions that meet given to one kind of activity
+export interface ActivityShare {
+  activityType: ScheduleActivityType;
+  sessions: number;
+  percentage: number;         // Of the sessions that meet, so breaks are not counted
+}
+
+// The course schedule as parsed from the syllabus
+export interface CourseSchedule {
+  rows: ScheduleRow[];
+  shares: ActivityShare[];    // Largest share first
+}
+
+// A graded piece of work, or group of like pieces, from the assignments and grading sections
+export interface Assessment {
+  name: string;               // As written, e.g. "Essay 1" or "Lab reports"
+  type: AssessmentType;
+  count: number;              // Pieces graded under this name, e.g. 3 for "Three essays"
+  weight: number | null;      // Percentage of the final grade, when the syllabus gives one
+  pages: number | null;       // Minimum length in pages; word counts are converted at 250 words a page
+  length: string | null;      // Length as written, e.g. "5-7 pages"
+  revisionSteps: string[];    // Drafting and feedback steps, e.g. "draft", "peer review", "revision"
+  collaborative: boolean;     // Done in groups or pairs
+}
+
+// How much of a syllabus an analysis actually considered
+export interface AnalysisCoverage {
+  totalCharacters: number;     // Length of the extracted content
+  analyzedCharacters: number;  // Characters that were sent for analysis
+  chunkCount: number;          // Chunks the content was split into
+  analyzedChunks: number;      // Chunks that were analyzed; the rest exceeded the chunk limit
+}
+
 export interface AnalysisResult {
+  id?: number;                       // ID of the stored analysis
   courseName: string;
   courseCode: string;
   fileName: string;
@@ -97,5 +612,27 @@ export interface AnalysisResult {
   bestFit?: RequirementFit;          // Single best matching requirement
   potentialFits?: RequirementFit[];  // Requirements with moderate alignment
   poorFits?: RequirementFit[];       // Requirements with minimal alignment
-  analysisMethod?: "ai" | "keyword";  // 'ai' for OpenAI, 'keyword' for basic matching
+  analysisMethod?: "ai" | "keyword" | "fixture";  // 'ai' for OpenAI, 'keyword' for basic matching, 'fixture' for a recorded replay
+  analyzer?: string;                 // Registered analyzer that produced the verdict
+  model?: string;                    // Model that judged the requirements, for AI analyses
+  temperature?: number;              // Sampling temperature, if one was set
+  promptVersion?: string;            // Version of the prompt templates, for AI analyses
+  fallbackError?: string;            // Why the primary analyzer failed, when the fallback produced the verdict
+  stageTimings?: StageTiming[];      // When each analysis stage started and finished
+  cached?: boolean;                  // The verdict was reused from the analysis cache
+  catalogVersionId?: number;         // Requirement catalog version the analysis was judged against
+  catalogVersionName?: string;       // Display name of that catalog version, e.g. "2025-26"
+  thresholds?: Record<string, RequirementThresholds>;  // Thresholds in effect, keyed by requirement name
+  coverage?: AnalysisCoverage;       // How much of the content the analysis considered
+  unanalyzedRequirements?: UnanalyzedRequirement[];  // Requirements that are neither approved nor rejected
+  sections?: SyllabusSection[];      // Standard sections found in the content
+  schedule?: CourseSchedule;         // Sessions parsed from the schedule section
+  assessments?: Assessment[];        // Graded work parsed from the assignments and grading sections
+  learningOutcomes?: string[];       // The course's own learning outcomes, for AI analyses
+  usage?: StageUsage[];              // Tokens and estimated cost per stage, for AI analyses
+  promptTokens?: number;
+  completionTokens?: number;
+  estimatedCost?: number;            // In US dollars
+  submittedBy?: string;              // Who uploaded the syllabus
+  batchId?: string;                  // Shared by the analyses of one multi-file upload
 }